@@ -0,0 +1,99 @@
+import { Image } from "@scrypted/sdk";
+import { BoundingBox } from "./util";
+
+/**
+ * Normalized HSV color histogram of a detection crop.
+ */
+export type AppearanceSignature = number[];
+
+const hueBins = 16;
+const saturationBins = 4;
+// Low saturation or dark pixels carry no usable hue, they are binned on value only
+const grayBins = 8;
+const minSaturation = 0.15;
+const minValue = 0.15;
+const cropWidth = 16;
+const cropHeight = 32;
+
+export const appearanceSampleIntervalMs = 1000;
+const appearanceBlendFactor = 0.2;
+
+const getHistogramIndex = (r: number, g: number, b: number) => {
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const value = max / 255;
+    const saturation = max ? (max - min) / max : 0;
+
+    if (saturation < minSaturation || value < minValue) {
+        return hueBins * saturationBins + Math.min(grayBins - 1, Math.floor(value * grayBins));
+    }
+
+    const delta = max - min;
+    let hue: number;
+    if (max === r) {
+        hue = ((g - b) / delta) % 6;
+    } else if (max === g) {
+        hue = (b - r) / delta + 2;
+    } else {
+        hue = (r - g) / delta + 4;
+    }
+    hue = (hue * 60 + 360) % 360;
+
+    const hueBin = Math.min(hueBins - 1, Math.floor(hue / 360 * hueBins));
+    const saturationBin = Math.min(saturationBins - 1, Math.floor((saturation - minSaturation) / (1 - minSaturation) * saturationBins));
+
+    return hueBin * saturationBins + saturationBin;
+}
+
+export const computeAppearanceSignature = async (
+    image: Image,
+    boundingBox: BoundingBox,
+    inputDimensions: [number, number],
+): Promise<AppearanceSignature> => {
+    const [x, y, w, h] = boundingBox;
+    const scaleX = image.width / inputDimensions[0];
+    const scaleY = image.height / inputDimensions[1];
+
+    const left = Math.max(0, Math.floor(x * scaleX));
+    const top = Math.max(0, Math.floor(y * scaleY));
+    const width = Math.min(image.width - left, Math.ceil(w * scaleX));
+    const height = Math.min(image.height - top, Math.ceil(h * scaleY));
+
+    if (width < 2 || height < 2) {
+        return undefined;
+    }
+
+    const buffer = await image.toBuffer({
+        crop: { left, top, width, height },
+        resize: { width: cropWidth, height: cropHeight },
+        format: 'rgb',
+    });
+
+    const histogram: AppearanceSignature = new Array(hueBins * saturationBins + grayBins).fill(0);
+    const pixels = Math.floor(buffer.length / 3);
+
+    for (let i = 0; i < pixels; i++) {
+        histogram[getHistogramIndex(buffer[i * 3], buffer[i * 3 + 1], buffer[i * 3 + 2])]++;
+    }
+
+    return pixels ? histogram.map(count => count / pixels) : undefined;
+}
+
+/**
+ * Bhattacharyya coefficient of two signatures, 1 for identical histograms.
+ */
+export const compareAppearance = (a: AppearanceSignature, b: AppearanceSignature) => {
+    if (!a || !b || a.length !== b.length) {
+        return 0;
+    }
+
+    return a.reduce((acc, value, index) => acc + Math.sqrt(value * b[index]), 0);
+}
+
+export const blendAppearance = (current: AppearanceSignature, next: AppearanceSignature) => {
+    if (!current) {
+        return next;
+    }
+
+    return current.map((value, index) => value * (1 - appearanceBlendFactor) + next[index] * appearanceBlendFactor);
+}
@@ -5,6 +5,7 @@ import { logLevelSetting } from "../../scrypted-apocaliss-base/src/basePlugin";
 import { RtpPacket } from "../../scrypted/external/werift/packages/rtp/src/rtp/rtp";
 import { startRtpForwarderProcess } from '../../scrypted/plugins/webrtc/src/rtp-forwarders';
 import BasicAudioDetector from "./audioDetector";
+import { SupervisorHandle } from "./supervisor";
 import { getDecibelsFromRtp_PCMU8, logMean, stddev } from "./util";
 
 export class BasicAudioDetectorMixin extends SettingsMixinDeviceBase<any> implements Settings, AudioVolumeControl {
@@ -15,6 +16,12 @@ export class BasicAudioDetectorMixin extends SettingsMixinDeviceBase<any> implem
             type: 'number',
             defaultValue: 2,
         },
+        stallSeconds: {
+            title: 'Stall timeout',
+            description: 'Seconds without audio after which the audio server is restarted, 0 to disable',
+            type: 'number',
+            defaultValue: 30,
+        },
         logLevel: {
             ...logLevelSetting
         }
@@ -28,6 +35,7 @@ export class BasicAudioDetectorMixin extends SettingsMixinDeviceBase<any> implem
     cameraDevice: VideoCamera;
     samples: number[] = [];
     samplingStart: number;
+    supervision: SupervisorHandle;
 
     constructor(
         options: SettingsMixinDeviceOptions<any>,
@@ -56,11 +64,16 @@ export class BasicAudioDetectorMixin extends SettingsMixinDeviceBase<any> implem
 
     async init() {
         const logger = this.getLogger();
-        setInterval(async () => {
-            logger.log(`Restarting Audio server`);
-            await this.stopAudioServer();
-            await this.startAudioServer();
-        }, 1000 * 60 * 60);
+        this.supervision = this.plugin.plugin.supervisor.register({
+            id: `audio:${this.id}`,
+            name: `${this.name} audio server`,
+            stallSeconds: () => this.storageSettings.values.stallSeconds ?? 30,
+            restart: async () => {
+                logger.log(`Restarting Audio server`);
+                await this.stopAudioServer();
+                await this.startAudioServer();
+            },
+        });
 
         logger.log(`Starting Audio server`);
         await this.startAudioServer();
@@ -95,6 +108,7 @@ export class BasicAudioDetectorMixin extends SettingsMixinDeviceBase<any> implem
                         '-ar', '8000',
                     ],
                     onRtp: rtp => {
+                        this.supervision?.heartbeat();
                         const { updateSeconds } = this.storageSettings.values;
                         const now = Date.now();
                         const canProcess = this.samplingStart && (now - this.samplingStart) > (updateSeconds * 1000);
@@ -146,6 +160,7 @@ export class BasicAudioDetectorMixin extends SettingsMixinDeviceBase<any> implem
             });
             this.lastAudioConnection = Date.now();
         } catch (e) {
+            this.supervision?.error(e);
             logger.log('Error in startAudioDetection', e.message);
         }
     }
@@ -184,6 +199,7 @@ export class BasicAudioDetectorMixin extends SettingsMixinDeviceBase<any> implem
 
     async release() {
         const logger = this.getLogger();
+        this.supervision?.unregister();
         await this.stopAudioServer();
         this.killed = true;
     }
@@ -0,0 +1,275 @@
+import { MediaObject, ObjectDetection, ObjectDetectionGeneratorResult, ObjectDetectionGeneratorSession, ScryptedDevice, VideoFrame } from "@scrypted/sdk";
+
+export type DetectorDevice = ScryptedDevice & ObjectDetection;
+
+export interface DetectorStatus {
+    failures: number;
+    lastError?: string;
+    lastFailure?: number;
+    lastSuccess?: number;
+}
+
+export interface DetectorSwitchEvent {
+    timestamp: number;
+    sourceId?: string;
+    from?: string;
+    to: string;
+    reason: string;
+}
+
+const maxSwitchEvents = 20;
+
+/**
+ * Health of the detectors shared by all the sessions, a failed detector is retried
+ * once the retry interval is elapsed, so the preferred one is picked up again when it recovers.
+ * Stalls stay in their session: a camera without frames does not make the detector unhealthy.
+ */
+export class DetectorHealth {
+    statuses = new Map<string, DetectorStatus>();
+    switchEvents: DetectorSwitchEvent[] = [];
+    // Detector that answered the last single calls of each source, to record their switches
+    callDetectors = new Map<string, DetectorDevice>();
+    // Detector that answered the latest detections of each source, calls and streams alike
+    answeredBy = new Map<string, DetectorDevice>();
+
+    constructor(private getRetrySeconds: () => number) { }
+
+    getStatus(id: string) {
+        let status = this.statuses.get(id);
+
+        if (!status) {
+            status = { failures: 0 };
+            this.statuses.set(id, status);
+        }
+
+        return status;
+    }
+
+    markFailure(id: string, error: any) {
+        const status = this.getStatus(id);
+        status.failures++;
+        status.lastFailure = Date.now();
+        status.lastError = error?.message ?? String(error);
+    }
+
+    markSuccess(id: string) {
+        const status = this.getStatus(id);
+        status.failures = 0;
+        status.lastSuccess = Date.now();
+    }
+
+    isRetryDue(since: number, now = Date.now()) {
+        return now - since >= this.getRetrySeconds() * 1000;
+    }
+
+    isAvailable(id: string, now = Date.now()) {
+        const { failures, lastFailure } = this.getStatus(id);
+
+        return !failures || this.isRetryDue(lastFailure, now);
+    }
+
+    recordSwitch(event: DetectorSwitchEvent) {
+        this.switchEvents.unshift(event);
+        this.switchEvents.length = Math.min(this.switchEvents.length, maxSwitchEvents);
+    }
+}
+
+export const selectDetector = (detectors: DetectorDevice[], health: DetectorHealth) => {
+    return detectors.find(detector => health.isAvailable(detector.id));
+}
+
+class TimeoutError extends Error { }
+
+export const withTimeout = async <T>(promise: Promise<T>, timeoutMs: number, message: string) => {
+    let timeout: NodeJS.Timeout;
+
+    try {
+        return await Promise.race([
+            promise,
+            new Promise<never>((_, reject) => timeout = setTimeout(() => reject(new TimeoutError(message)), timeoutMs)),
+        ]);
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+export const isAsyncGenerator = (value: any): value is AsyncGenerator<VideoFrame, void> => typeof value?.next === 'function';
+
+// Each detector gets its own view of the frames, closing it does not end the source stream for the next one
+export const getFrameFeed = async function* (source: AsyncGenerator<VideoFrame, void>) {
+    while (true) {
+        const { value, done } = await source.next();
+        if (done) return;
+        yield value as VideoFrame;
+    }
+}
+
+/**
+ * Runs a detection on the first available detector, moving to the next ones on errors
+ * or when a call hangs past the timeout.
+ */
+export const callWithFailover = async <T>(props: {
+    detectors: DetectorDevice[],
+    health: DetectorHealth,
+    logger: Console,
+    sourceId?: string,
+    timeoutSeconds?: number,
+    call: (detector: DetectorDevice) => Promise<T>,
+}) => {
+    const { detectors, health, logger, sourceId, timeoutSeconds, call } = props;
+    let lastError: any;
+
+    for (const detector of detectors.filter(detector => health.isAvailable(detector.id))) {
+        try {
+            const result = timeoutSeconds ?
+                await withTimeout(call(detector), timeoutSeconds * 1000, `no response for ${timeoutSeconds} seconds`) :
+                await call(detector);
+            health.markSuccess(detector.id);
+            health.answeredBy.set(sourceId ?? '', detector);
+
+            const previous = health.callDetectors.get(sourceId ?? '') ?? detectors[0];
+            health.callDetectors.set(sourceId ?? '', detector);
+            if (previous && previous.id !== detector.id) {
+                const { failures, lastError } = health.getStatus(previous.id);
+                health.recordSwitch({
+                    timestamp: Date.now(),
+                    sourceId,
+                    from: previous.name,
+                    to: detector.name,
+                    reason: failures ? `${previous.name} failed: ${lastError}` : `retrying ${detector.name}`,
+                });
+                logger.warn(`Detector switched from ${previous.name} to ${detector.name}`);
+            }
+
+            return result;
+        } catch (e) {
+            lastError = e;
+            health.markFailure(detector.id, e);
+            logger.warn(`Detector ${detector.name} failed, trying the next one`, e);
+        }
+    }
+
+    throw lastError ?? new Error('Object detector unavailable');
+}
+
+/**
+ * Detection stream that switches to the next available detector when the current one errors or stalls,
+ * and back to a preferred one once its retry interval is elapsed.
+ */
+export const generateWithFailover = async function* (props: {
+    videoFrames: AsyncGenerator<VideoFrame, void> | MediaObject,
+    session: ObjectDetectionGeneratorSession,
+    getDetectors: () => DetectorDevice[],
+    health: DetectorHealth,
+    stallSeconds: number,
+    logger: Console,
+}): AsyncGenerator<ObjectDetectionGeneratorResult, void> {
+    const { videoFrames, session, getDetectors, health, stallSeconds, logger } = props;
+    const source = isAsyncGenerator(videoFrames) ? videoFrames : undefined;
+    // Detectors stalled on this session, by stall time
+    const sessionStalls = new Map<string, number>();
+    let current: DetectorDevice;
+    let detectionGen: AsyncGenerator<ObjectDetectionGeneratorResult, void>;
+    let failureReason: string;
+    // Frame taken by the current detector without result yet, a stream feeding one frame per result
+    // only sends the next one after that result, so the next detector gets it first
+    let unansweredFrame: VideoFrame;
+
+    const getFeed = async function* () {
+        if (unansweredFrame) {
+            yield unansweredFrame;
+        }
+
+        while (true) {
+            const { value, done } = await source.next();
+            if (done) return;
+            unansweredFrame = value as VideoFrame;
+            yield unansweredFrame;
+        }
+    }
+
+    // A stalled detector may never settle, its stream is released without waiting
+    const release = () => {
+        detectionGen?.return(undefined).catch(() => { });
+        detectionGen = undefined;
+    };
+
+    try {
+        while (true) {
+            // Stalled detectors are retried after their interval, unless the current one stalls too:
+            // then the frames are missing rather than the detections, and the stream restarts where it is
+            const detectors = getDetectors();
+            const currentStalled = current && sessionStalls.has(current.id);
+            const candidates = detectors.filter(detector => {
+                const stalledAt = sessionStalls.get(detector.id);
+
+                return !stalledAt || (!currentStalled && health.isRetryDue(stalledAt));
+            });
+            const detector = selectDetector(candidates, health) ??
+                (current && health.isAvailable(current.id) ? current : selectDetector(detectors, health));
+
+            if (!detector) {
+                throw new Error('Object detector unavailable');
+            }
+
+            if (detector.id !== current?.id || !detectionGen) {
+                release();
+
+                if (current && detector.id !== current.id) {
+                    const event: DetectorSwitchEvent = {
+                        timestamp: Date.now(),
+                        sourceId: session.sourceId,
+                        from: current.name,
+                        to: detector.name,
+                        reason: failureReason ?? `retrying ${detector.name}`,
+                    };
+                    health.recordSwitch(event);
+                    logger.warn(`Detector switched from ${event.from} to ${event.to}: ${event.reason}`);
+                }
+                current = detector;
+                failureReason = undefined;
+
+                try {
+                    detectionGen = await detector.generateObjectDetections(source ? getFeed() : videoFrames, session);
+                } catch (e) {
+                    health.markFailure(detector.id, e);
+                    failureReason = `${detector.name} failed: ${e?.message ?? e}`;
+                    logger.warn(`Detector ${detector.name} failed to start`, e);
+                    continue;
+                }
+            }
+
+            let result: IteratorResult<ObjectDetectionGeneratorResult, void>;
+            try {
+                result = await withTimeout(detectionGen.next(), stallSeconds * 1000, `no detections for ${stallSeconds} seconds`);
+            } catch (e) {
+                // The stall timer also covers the wait for the frames, only this session moves away from the detector
+                if (e instanceof TimeoutError) {
+                    sessionStalls.set(current.id, Date.now());
+                    failureReason = `${current.name} stalled: ${e.message}`;
+                    logger.warn(`Detector ${current.name} stalled: ${e.message}`);
+                } else {
+                    health.markFailure(current.id, e);
+                    failureReason = `${current.name} failed: ${e?.message ?? e}`;
+                    logger.warn(`Detector ${current.name} failed`, e);
+                }
+                release();
+                continue;
+            }
+
+            if (result.done) {
+                return;
+            }
+
+            unansweredFrame = undefined;
+            sessionStalls.delete(current.id);
+            health.markSuccess(current.id);
+            health.answeredBy.set(session.sourceId, current);
+            yield result.value as ObjectDetectionGeneratorResult;
+        }
+    } finally {
+        release();
+        // Detector switches only close their feed, the source frames are closed once the stream is over
+        source?.return(undefined).catch(() => { });
+    }
+}
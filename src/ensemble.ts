@@ -0,0 +1,118 @@
+import { ObjectDetectionGeneratorSession, ObjectDetectionResult, ObjectsDetected } from "@scrypted/sdk";
+import { BoundingBox, calculateIoU, getClassnameSettings } from "./util";
+
+export interface EnsembleResult {
+    detected: ObjectsDetected;
+    weight: number;
+}
+
+interface FusionCluster {
+    className: string;
+    boundingBox: BoundingBox;
+    members: { det: ObjectDetectionResult, weight: number, source: number }[];
+}
+
+const defaultFusionIoUThreshold = 0.55;
+
+const scaleBoundingBox = (boundingBox: BoundingBox, scaleX: number, scaleY: number): BoundingBox => {
+    const [x, y, w, h] = boundingBox;
+    return [x * scaleX, y * scaleY, w * scaleX, h * scaleY];
+}
+
+// Coordinates averaged on score * weight of every box in the cluster
+const getFusedBox = (members: FusionCluster['members']): BoundingBox => {
+    const totalWeight = members.reduce((acc, { det, weight }) => acc + det.score * weight, 0);
+    const fused = [0, 0, 0, 0];
+
+    for (const { det, weight } of members) {
+        const [x, y, w, h] = det.boundingBox;
+        const factor = det.score * weight / totalWeight;
+        fused[0] += x * factor;
+        fused[1] += y * factor;
+        fused[2] += (x + w) * factor;
+        fused[3] += (y + h) * factor;
+    }
+
+    return [fused[0], fused[1], fused[2] - fused[0], fused[3] - fused[1]];
+}
+
+/**
+ * Weighted box fusion of the outputs of several detectors run on the same frame.
+ * Boxes of the same class overlapping a cluster are merged into it. The fused score is the weighted sum
+ * of the member scores over the weight of all detectors, so objects missed by some detectors are penalized.
+ * Clusters detected by less than minAgreement detectors are dropped.
+ */
+export const fuseDetections = (props: {
+    results: EnsembleResult[],
+    inputDimensions: [number, number],
+    minAgreement: number,
+    settings?: ObjectDetectionGeneratorSession['settings'],
+}): ObjectDetectionResult[] => {
+    const { results, inputDimensions, minAgreement, settings } = props;
+    const totalWeight = results.reduce((acc, { weight }) => acc + weight, 0);
+
+    if (!totalWeight) {
+        return [];
+    }
+
+    const candidates: FusionCluster['members'] = [];
+    results.forEach(({ detected, weight }, source) => {
+        const [width, height] = detected.inputDimensions ?? inputDimensions;
+        const scaleX = inputDimensions[0] / width;
+        const scaleY = inputDimensions[1] / height;
+
+        for (const det of detected.detections ?? []) {
+            candidates.push({
+                det: { ...det, boundingBox: scaleBoundingBox(det.boundingBox, scaleX, scaleY) },
+                weight,
+                source,
+            });
+        }
+    });
+    candidates.sort((a, b) => b.det.score * b.weight - a.det.score * a.weight);
+
+    const clusters: FusionCluster[] = [];
+    for (const candidate of candidates) {
+        const { className } = candidate.det;
+        const { iouThresholdSetting } = getClassnameSettings(className);
+        const iouThreshold = settings?.[iouThresholdSetting] ?? defaultFusionIoUThreshold;
+
+        let bestCluster: FusionCluster;
+        let bestIoU = iouThreshold;
+        for (const cluster of clusters) {
+            if (cluster.className !== className) continue;
+
+            const iou = calculateIoU(cluster.boundingBox, candidate.det.boundingBox);
+            if (iou > bestIoU) {
+                bestIoU = iou;
+                bestCluster = cluster;
+            }
+        }
+
+        if (bestCluster) {
+            bestCluster.members.push(candidate);
+            bestCluster.boundingBox = getFusedBox(bestCluster.members);
+        } else {
+            clusters.push({ className, boundingBox: candidate.det.boundingBox, members: [candidate] });
+        }
+    }
+
+    return clusters
+        .filter(cluster => new Set(cluster.members.map(member => member.source)).size >= minAgreement)
+        .map(cluster => {
+            // Members are sorted by weighted score, the first one carries the most reliable label
+            const [best] = cluster.members;
+            // Only the best box of each detector counts, duplicates of a single detector do not raise the score
+            const sourceScores = new Map<number, number>();
+            for (const { det, weight, source } of cluster.members) {
+                sourceScores.set(source, Math.max(sourceScores.get(source) ?? 0, det.score * weight));
+            }
+            const score = [...sourceScores.values()].reduce((acc, value) => acc + value, 0) / totalWeight;
+
+            return {
+                ...best.det,
+                boundingBox: cluster.boundingBox,
+                score: Math.min(1, score),
+            };
+        });
+}
@@ -0,0 +1,274 @@
+import { ObjectDetectionGeneratorSession, ObjectsDetected } from "@scrypted/sdk";
+import fs from 'fs';
+import { Munkres } from 'munkres-js';
+import { AssociationStrategy, ObjectTracker } from "./objectTracker";
+import { getReplayLogger } from "./replay";
+import { BoundingBox, calculateIoU, getClassnameSettings, getMainSettings } from "./util";
+
+export interface MotEntry {
+    frame: number;
+    id: number;
+    boundingBox: BoundingBox;
+    score: number;
+}
+
+export interface TrackingMetrics {
+    strategy: string;
+    frames: number;
+    groundTruths: number;
+    hypotheses: number;
+    falseNegatives: number;
+    falsePositives: number;
+    idSwitches: number;
+    fragmentations: number;
+    falseConfirmations: number;
+    mota: number;
+    idf1: number;
+}
+
+const matchIoUThreshold = 0.5;
+
+/**
+ * Parses MOTChallenge text files: frame, id, left, top, width, height, conf/consider, ...
+ * Ground truth rows flagged as not to be considered (conf 0) are skipped.
+ */
+export const parseMotFile = (filePath: string, isGroundTruth: boolean) => {
+    const frames = new Map<number, MotEntry[]>();
+
+    for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+        const values = line.split(',').map(value => Number(value.trim()));
+        if (values.length < 6 || values.some((value, index) => index < 6 && isNaN(value))) continue;
+
+        const [frame, id, left, top, width, height, score = 1] = values;
+        if (isGroundTruth && score === 0) continue;
+
+        const entries = frames.get(frame) ?? [];
+        entries.push({ frame, id, boundingBox: [left, top, width, height], score });
+        frames.set(frame, entries);
+    }
+
+    return frames;
+}
+
+export const getEvaluationSettings = (className: string, overrides: ObjectDetectionGeneratorSession['settings'] = {}) => {
+    const {
+        minScoreSetting,
+        minConfirmationFramesSetting,
+        iouThresholdSetting,
+        movementThresholdSetting,
+        trackKeepScoreSetting,
+    } = getClassnameSettings(className);
+
+    return {
+        enabledClasses: [className],
+        [minScoreSetting]: 0.7,
+        [minConfirmationFramesSetting]: 3,
+        [iouThresholdSetting]: 0.5,
+        [movementThresholdSetting]: 10,
+        [trackKeepScoreSetting]: 0.3,
+        ...overrides,
+    };
+}
+
+const matchBoxes = (
+    groundTruths: MotEntry[],
+    hypotheses: { id: string, boundingBox: BoundingBox }[],
+    previousMatches: Map<number, string>,
+) => {
+    const matches = new Map<number, string>();
+    const usedHypotheses = new Set<string>();
+
+    // Correspondences from the previous frame are kept while still valid
+    for (const gt of groundTruths) {
+        const previousId = previousMatches.get(gt.id);
+        const hypothesis = hypotheses.find(hyp => hyp.id === previousId);
+
+        if (hypothesis && calculateIoU(gt.boundingBox, hypothesis.boundingBox) >= matchIoUThreshold) {
+            matches.set(gt.id, hypothesis.id);
+            usedHypotheses.add(hypothesis.id);
+        }
+    }
+
+    const freeGroundTruths = groundTruths.filter(gt => !matches.has(gt.id));
+    const freeHypotheses = hypotheses.filter(hyp => !usedHypotheses.has(hyp.id));
+
+    if (freeGroundTruths.length && freeHypotheses.length) {
+        const costMatrix = freeGroundTruths.map(gt => freeHypotheses.map(hyp => 1 - calculateIoU(gt.boundingBox, hyp.boundingBox)));
+        const assignments: [number, number][] = new Munkres().compute(costMatrix);
+
+        for (const [gtIdx, hypIdx] of assignments) {
+            if (costMatrix[gtIdx][hypIdx] <= 1 - matchIoUThreshold) {
+                matches.set(freeGroundTruths[gtIdx].id, freeHypotheses[hypIdx].id);
+            }
+        }
+    }
+
+    return matches;
+}
+
+export const evaluateTracking = (props: {
+    groundTruth: Map<number, MotEntry[]>,
+    detections: Map<number, MotEntry[]>,
+    settings: ObjectDetectionGeneratorSession['settings'],
+    className: string,
+    fps: number,
+    inputDimensions: [number, number],
+    logger: Console,
+}): TrackingMetrics => {
+    const { groundTruth, detections, settings, className, fps, inputDimensions, logger } = props;
+    const objectTracker = new ObjectTracker({ logger, session: { sourceId: 'evaluation', settings } });
+    const lastFrame = Math.max(0, ...groundTruth.keys(), ...detections.keys());
+
+    let groundTruths = 0;
+    let hypotheses = 0;
+    let falseNegatives = 0;
+    let falsePositives = 0;
+    let idSwitches = 0;
+    let fragmentations = 0;
+
+    let previousMatches = new Map<number, string>();
+    const lastMatchedIds = new Map<number, string>();
+    const wasTracked = new Map<number, boolean>();
+    const interrupted = new Set<number>();
+    const matchedHypotheses = new Set<string>();
+    const hypothesisIds = new Set<string>();
+    // gtId -> hypId -> frames matched, for the identity metrics
+    const overlaps = new Map<number, Map<string, number>>();
+    const gtCounts = new Map<number, number>();
+    const hypCounts = new Map<string, number>();
+
+    for (let frame = 1; frame <= lastFrame; frame++) {
+        const detected: ObjectsDetected = {
+            timestamp: Math.round(frame / fps * 1000),
+            inputDimensions,
+            detections: (detections.get(frame) ?? []).map(det => ({
+                className,
+                score: det.score,
+                boundingBox: det.boundingBox,
+            })),
+        };
+
+        const { active } = objectTracker.update(detected, false);
+        const frameHypotheses = active
+            .filter(det => det.id && det.className !== 'motion')
+            .map(det => ({ id: det.id, boundingBox: det.boundingBox }));
+        const frameGroundTruths = groundTruth.get(frame) ?? [];
+
+        const matches = matchBoxes(frameGroundTruths, frameHypotheses, previousMatches);
+
+        groundTruths += frameGroundTruths.length;
+        hypotheses += frameHypotheses.length;
+        falseNegatives += frameGroundTruths.length - matches.size;
+        falsePositives += frameHypotheses.length - matches.size;
+
+        for (const hyp of frameHypotheses) {
+            hypothesisIds.add(hyp.id);
+            hypCounts.set(hyp.id, (hypCounts.get(hyp.id) ?? 0) + 1);
+        }
+
+        for (const gt of frameGroundTruths) {
+            gtCounts.set(gt.id, (gtCounts.get(gt.id) ?? 0) + 1);
+
+            const hypId = matches.get(gt.id);
+            if (!hypId) {
+                if (wasTracked.get(gt.id)) {
+                    interrupted.add(gt.id);
+                }
+                wasTracked.set(gt.id, false);
+                continue;
+            }
+
+            const lastMatchedId = lastMatchedIds.get(gt.id);
+            if (lastMatchedId && lastMatchedId !== hypId) {
+                idSwitches++;
+            }
+            if (interrupted.has(gt.id)) {
+                fragmentations++;
+                interrupted.delete(gt.id);
+            }
+
+            lastMatchedIds.set(gt.id, hypId);
+            wasTracked.set(gt.id, true);
+            matchedHypotheses.add(hypId);
+
+            const gtOverlaps = overlaps.get(gt.id) ?? new Map<string, number>();
+            gtOverlaps.set(hypId, (gtOverlaps.get(hypId) ?? 0) + 1);
+            overlaps.set(gt.id, gtOverlaps);
+        }
+
+        previousMatches = matches;
+    }
+
+    // IDF1: best one to one assignment of ground truth and tracker identities over the whole sequence
+    let identityTruePositives = 0;
+    const gtIds = [...gtCounts.keys()];
+    const hypIds = [...hypCounts.keys()];
+    if (gtIds.length && hypIds.length) {
+        const costMatrix = gtIds.map(gtId => hypIds.map(hypId => -(overlaps.get(gtId)?.get(hypId) ?? 0)));
+        const assignments: [number, number][] = new Munkres().compute(costMatrix);
+        identityTruePositives = assignments.reduce((acc, [gtIdx, hypIdx]) => acc - costMatrix[gtIdx][hypIdx], 0);
+    }
+
+    const { associationStrategySetting } = getMainSettings();
+
+    return {
+        strategy: settings[associationStrategySetting] ?? AssociationStrategy.Greedy,
+        frames: lastFrame,
+        groundTruths,
+        hypotheses,
+        falseNegatives,
+        falsePositives,
+        idSwitches,
+        fragmentations,
+        falseConfirmations: [...hypothesisIds].filter(id => !matchedHypotheses.has(id)).length,
+        mota: groundTruths ? 1 - (falseNegatives + falsePositives + idSwitches) / groundTruths : 0,
+        idf1: (groundTruths + hypotheses) ? 2 * identityTruePositives / (groundTruths + hypotheses) : 0,
+    };
+}
+
+const printMetrics = (results: TrackingMetrics[]) => {
+    console.table(results.map(result => ({
+        ...result,
+        mota: result.mota.toFixed(3),
+        idf1: result.idf1.toFixed(3),
+    })));
+}
+
+const quietLogger = {
+    ...getReplayLogger(),
+    log: () => { },
+} as Console;
+
+const getFlag = (args: string[], name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+
+// Usage: evaluate <gt.txt> <det.txt> [settings overrides, JSON string or file] [--fps=30] [--size=1920x1080] [--class=person] [--debug]
+if (require.main === module) {
+    const args = process.argv.slice(2);
+    const [gtPath, detPath, overrides] = args.filter(arg => !arg.startsWith('--'));
+
+    if (!gtPath || !detPath) {
+        console.error('Usage: evaluate <gt.txt> <det.txt> [settings overrides] [--fps=30] [--size=1920x1080] [--class=person] [--debug]');
+        process.exit(1);
+    }
+
+    const fps = Number(getFlag(args, 'fps') ?? 30);
+    const [width, height] = (getFlag(args, 'size') ?? '1920x1080').split('x').map(Number);
+    const className = getFlag(args, 'class') ?? 'person';
+    const parsedOverrides = overrides ? JSON.parse(fs.existsSync(overrides) ? fs.readFileSync(overrides, 'utf-8') : overrides) : {};
+
+    const groundTruth = parseMotFile(gtPath, true);
+    const detections = parseMotFile(detPath, false);
+    const { associationStrategySetting } = getMainSettings();
+
+    const results = Object.values(AssociationStrategy).map(strategy => evaluateTracking({
+        groundTruth,
+        detections,
+        settings: getEvaluationSettings(className, { ...parsedOverrides, [associationStrategySetting]: strategy }),
+        className,
+        fps,
+        inputDimensions: [width, height],
+        logger: args.includes('--debug') ? getReplayLogger(true) : quietLogger,
+    }));
+
+    printMetrics(results);
+}
@@ -0,0 +1,94 @@
+import { ObjectDetectionGeneratorResult, VideoFrame } from "@scrypted/sdk";
+import { DetectorDevice, DetectorHealth, generateWithFailover } from "./detectorFailover";
+import { FrameScheduler, generateScheduled, generateUnscheduled, ScheduledResult } from "./frameScheduler";
+import { getReplayLogger } from "./replay";
+
+const frameIntervalMs = 20;
+const stallSeconds = 0.3;
+const runMs = 3000;
+
+// Fake detector answering every frame, hanging forever after the given number of frames
+const getFakeDetector = (name: string, hangAfter = Infinity) => ({
+    id: name,
+    name,
+    generateObjectDetections: async (frames: AsyncGenerator<VideoFrame, void>) => (async function* () {
+        let count = 0;
+
+        for await (const videoFrame of frames) {
+            if (++count > hangAfter) {
+                await new Promise(() => { });
+            }
+
+            yield { __json_copy_serialize_children: true, videoFrame, detected: { timestamp: videoFrame.timestamp, detections: [], sourceId: name } } as ObjectDetectionGeneratorResult;
+        }
+    })(),
+}) as unknown as DetectorDevice;
+
+const generateFrames = async function* (): AsyncGenerator<VideoFrame, void> {
+    for (let frame = 0; ; frame++) {
+        await new Promise(resolve => setTimeout(resolve, frameIntervalMs));
+        yield { timestamp: Date.now() } as VideoFrame;
+    }
+}
+
+/**
+ * Runs a detection stream whose preferred detector stalls after a few frames,
+ * counting the results of each detector until the deadline.
+ */
+export const checkFailover = async (scheduled: boolean, logger: Console) => {
+    const detectors = [getFakeDetector('stalling', 3), getFakeDetector('healthy')];
+    const health = new DetectorHealth(() => 60);
+    const detect = (videoFrames: AsyncGenerator<VideoFrame, void>) => generateWithFailover({
+        videoFrames,
+        session: { sourceId: 'check' },
+        getDetectors: () => detectors,
+        health,
+        stallSeconds,
+        logger,
+    });
+
+    const results: AsyncGenerator<ScheduledResult, void> = scheduled ?
+        generateScheduled({ videoFrames: generateFrames(), scheduler: new FrameScheduler({ idleFps: 0, targetLatencyMs: 0 }), hasActivity: () => true, detect }) :
+        generateUnscheduled({ videoFrames: generateFrames(), detect });
+
+    const counts: Record<string, number> = {};
+    const deadline = Date.now() + runMs;
+
+    try {
+        while (Date.now() < deadline) {
+            const next = await Promise.race([
+                results.next(),
+                new Promise<undefined>(resolve => setTimeout(resolve, deadline - Date.now())),
+            ]);
+
+            if (!next || next.done || !next.value) break;
+            if (next.value.skipped) continue;
+
+            const name = next.value.result.detected.sourceId;
+            counts[name] = (counts[name] ?? 0) + 1;
+        }
+    } finally {
+        results.return(undefined).catch(() => { });
+    }
+
+    return counts;
+}
+
+// Usage: check-failover [--debug]
+if (require.main === module) {
+    (async () => {
+        const logger = getReplayLogger(process.argv.includes('--debug'));
+        let failed = false;
+
+        for (const scheduled of [false, true]) {
+            const counts = await checkFailover(scheduled, logger);
+            // The healthy detector answers at the frame rate once the stall is detected
+            const ok = (counts.healthy ?? 0) >= runMs / frameIntervalMs / 2;
+            failed ||= !ok;
+
+            console.log(`${scheduled ? 'Scheduled' : 'Unscheduled'} stream: ${JSON.stringify(counts)} ${ok ? 'OK' : 'FAILED'}`);
+        }
+
+        process.exit(failed ? 1 : 0);
+    })();
+}
@@ -0,0 +1,195 @@
+import { MediaObject, ObjectDetectionGeneratorResult, VideoFrame } from "@scrypted/sdk";
+import { isAsyncGenerator } from "./detectorFailover";
+
+export interface ScheduledResult {
+    result: ObjectDetectionGeneratorResult;
+    skipped: boolean;
+    latencyMs?: number;
+}
+
+// Weight of the latest measure in the detector latency average
+const latencySmoothingFactor = 0.2;
+const minBackoffMs = 10;
+
+/**
+ * Decides which frames are sent to the detector: all of them while there is activity,
+ * the idle rate otherwise. The interval backs off while the detector latency is above the target.
+ */
+export class FrameScheduler {
+    lastDetection: number;
+    latencyMs: number;
+    backoffMs = 0;
+
+    constructor(private props: {
+        idleFps: number,
+        targetLatencyMs: number,
+    }) { }
+
+    get idleIntervalMs() {
+        return this.props.idleFps ? 1000 / this.props.idleFps : 0;
+    }
+
+    shouldDetect(timestamp: number, hasActivity: boolean) {
+        if (this.lastDetection === undefined || timestamp < this.lastDetection) {
+            return true;
+        }
+
+        const interval = hasActivity ? this.backoffMs : Math.max(this.idleIntervalMs, this.backoffMs);
+
+        return timestamp - this.lastDetection >= interval;
+    }
+
+    recordDetection(timestamp: number, latencyMs: number) {
+        this.lastDetection = timestamp;
+        this.latencyMs = this.latencyMs === undefined ?
+            latencyMs :
+            this.latencyMs * (1 - latencySmoothingFactor) + latencyMs * latencySmoothingFactor;
+
+        const { targetLatencyMs } = this.props;
+        if (!targetLatencyMs) {
+            return;
+        }
+
+        // Multiplicative back off, bounded by the idle interval so objects are never missed for longer
+        const maxBackoffMs = this.idleIntervalMs || targetLatencyMs * 10;
+        if (this.latencyMs > targetLatencyMs) {
+            this.backoffMs = Math.min(maxBackoffMs, Math.max(this.backoffMs * 2, this.latencyMs));
+        } else {
+            this.backoffMs = this.backoffMs / 2 < minBackoffMs ? 0 : this.backoffMs / 2;
+        }
+    }
+}
+
+/**
+ * Hand-off of the scheduled frames to the detector stream, which waits here until the next one is pushed.
+ */
+class FrameChannel {
+    private frames: VideoFrame[] = [];
+    private waiting: (frame: VideoFrame) => void;
+    private ended = false;
+
+    push(frame: VideoFrame) {
+        const waiting = this.waiting;
+        this.waiting = undefined;
+
+        if (waiting) {
+            waiting(frame);
+        } else {
+            this.frames.push(frame);
+        }
+    }
+
+    end() {
+        this.ended = true;
+        this.waiting?.(undefined);
+        this.waiting = undefined;
+    }
+
+    async *generate(): AsyncGenerator<VideoFrame, void> {
+        while (true) {
+            const frame = this.frames.shift() ?? (this.ended ? undefined : await new Promise<VideoFrame>(resolve => this.waiting = resolve));
+
+            if (!frame) {
+                return;
+            }
+
+            yield frame;
+        }
+    }
+}
+
+// Frames pulled by the detector still waiting for their result
+const maxPendingFrames = 100;
+
+/**
+ * Detection stream on every frame. The latency runs from the moment the detector pulls a frame until its result,
+ * paired on the frame timestamp, so the wait for the camera frames is left out. Unpaired results have no latency.
+ */
+export const generateUnscheduled = async function* (props: {
+    videoFrames: AsyncGenerator<VideoFrame, void> | MediaObject,
+    detect: (frames: AsyncGenerator<VideoFrame, void> | MediaObject) => AsyncGenerator<ObjectDetectionGeneratorResult, void>,
+}): AsyncGenerator<ScheduledResult, void> {
+    const { videoFrames, detect } = props;
+    const pulledAt = new Map<number, number>();
+
+    const timeFrames = async function* (frames: AsyncGenerator<VideoFrame, void>) {
+        for await (const frame of frames) {
+            if (frame.timestamp !== undefined) {
+                pulledAt.set(frame.timestamp, Date.now());
+
+                if (pulledAt.size > maxPendingFrames) {
+                    pulledAt.delete(pulledAt.keys().next().value);
+                }
+            }
+
+            yield frame;
+        }
+    }
+
+    const detections = detect(isAsyncGenerator(videoFrames) ? timeFrames(videoFrames) : videoFrames);
+
+    for await (const result of detections) {
+        const timestamp = result.videoFrame?.timestamp;
+        const start = pulledAt.get(timestamp);
+        pulledAt.delete(timestamp);
+
+        yield { result, skipped: false, latencyMs: start === undefined ? undefined : Date.now() - start };
+    }
+}
+
+/**
+ * Drives the detection stream from the source frames: scheduled frames go to the detector,
+ * the others are returned as skipped so the tracker can fill them with predicted positions.
+ * Expects the detector to yield one result per frame.
+ */
+export const generateScheduled = async function* (props: {
+    videoFrames: AsyncGenerator<VideoFrame, void>,
+    scheduler: FrameScheduler,
+    hasActivity: () => boolean,
+    detect: (frames: AsyncGenerator<VideoFrame, void>) => AsyncGenerator<ObjectDetectionGeneratorResult, void>,
+}): AsyncGenerator<ScheduledResult, void> {
+    const { videoFrames, scheduler, hasActivity, detect } = props;
+    const channel = new FrameChannel();
+    const detections = detect(channel.generate());
+    let inputDimensions: [number, number];
+
+    try {
+        for await (const videoFrame of videoFrames) {
+            const timestamp = videoFrame.timestamp ?? Date.now();
+
+            if (!scheduler.shouldDetect(timestamp, hasActivity())) {
+                yield {
+                    skipped: true,
+                    result: {
+                        __json_copy_serialize_children: true,
+                        videoFrame,
+                        detected: {
+                            timestamp,
+                            inputDimensions,
+                            detections: [],
+                        },
+                    },
+                };
+                continue;
+            }
+
+            const start = Date.now();
+            channel.push(videoFrame);
+            const { value, done } = await detections.next();
+
+            if (done) {
+                return;
+            }
+
+            const latencyMs = Date.now() - start;
+            scheduler.recordDetection(timestamp, latencyMs);
+            const result = value as ObjectDetectionGeneratorResult;
+            inputDimensions = result.detected.inputDimensions ?? inputDimensions;
+
+            yield { result, skipped: false, latencyMs };
+        }
+    } finally {
+        channel.end();
+        detections.return(undefined).catch(() => { });
+    }
+}
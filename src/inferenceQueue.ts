@@ -0,0 +1,245 @@
+import { MediaObject, ObjectDetectionSession, ObjectsDetected, VideoFrame } from "@scrypted/sdk";
+import { FrameScheduler, ScheduledResult } from "./frameScheduler";
+
+export interface CameraQueueStats {
+    queued: number;
+    dispatched: number;
+    dropped: number;
+    averageWaitMs: number;
+    maxWaitMs: number;
+}
+
+export interface QueuedDetection {
+    detected: ObjectsDetected;
+    // From the dispatch to the detector until its result, the wait in the queue is left out
+    inferenceMs: number;
+}
+
+interface QueueEntry {
+    sourceId: string;
+    image: MediaObject;
+    session: ObjectDetectionSession;
+    enqueuedAt: number;
+    resolve: (result: QueuedDetection | undefined) => void;
+    reject: (error: any) => void;
+}
+
+interface CameraQueue {
+    entries: QueueEntry[];
+    priority: number;
+    // Weighted fair queueing: every dispatched frame advances the camera by 1 / priority
+    virtualTime: number;
+    dispatched: number;
+    dropped: number;
+    totalWaitMs: number;
+    maxWaitMs: number;
+}
+
+// Live detection only needs the latest frames, older ones of the same camera are dropped
+const maxQueuedPerCamera = 2;
+
+/**
+ * Plugin wide queue of the frames to detect. Cameras are served fairly according to their priority,
+ * frames waiting together are dispatched as a batch and frames older than the max wait are dropped.
+ */
+export class InferenceQueue {
+    private cameras = new Map<string, CameraQueue>();
+    private virtualClock = 0;
+    private dispatching = false;
+
+    constructor(private props: {
+        detect: (image: MediaObject, session: ObjectDetectionSession) => Promise<ObjectsDetected>,
+        getBatchSize: () => number,
+        getMaxWaitMs: () => number,
+        logger: Console,
+    }) { }
+
+    private getCamera(sourceId: string, priority = 1) {
+        let camera = this.cameras.get(sourceId);
+
+        if (!camera) {
+            camera = { entries: [], priority, virtualTime: this.virtualClock, dispatched: 0, dropped: 0, totalWaitMs: 0, maxWaitMs: 0 };
+            this.cameras.set(sourceId, camera);
+        }
+
+        camera.priority = Math.max(priority, 0.1);
+
+        return camera;
+    }
+
+    private drop(camera: CameraQueue, entry: QueueEntry) {
+        camera.dropped++;
+        entry.resolve(undefined);
+    }
+
+    /**
+     * Resolves the detections of the frame with the inference duration, or undefined when the frame was dropped.
+     */
+    enqueue(props: { sourceId: string, image: MediaObject, session: ObjectDetectionSession, priority?: number }) {
+        const { sourceId, image, session, priority } = props;
+        const camera = this.getCamera(sourceId, priority);
+
+        const result = new Promise<QueuedDetection | undefined>((resolve, reject) => {
+            camera.entries.push({ sourceId, image, session, enqueuedAt: Date.now(), resolve, reject });
+        });
+
+        while (camera.entries.length > maxQueuedPerCamera) {
+            this.drop(camera, camera.entries.shift());
+        }
+
+        // An idle camera does not accumulate credit over the busy ones
+        if (camera.entries.length === 1) {
+            camera.virtualTime = Math.max(camera.virtualTime, this.virtualClock);
+        }
+
+        this.dispatch();
+
+        return result;
+    }
+
+    private dropStale(now: number) {
+        const maxWaitMs = this.props.getMaxWaitMs();
+
+        if (!maxWaitMs) {
+            return;
+        }
+
+        for (const camera of this.cameras.values()) {
+            while (camera.entries.length && now - camera.entries[0].enqueuedAt > maxWaitMs) {
+                this.drop(camera, camera.entries.shift());
+            }
+        }
+    }
+
+    private takeBatch(now: number) {
+        const batchSize = Math.max(1, this.props.getBatchSize() || 1);
+        const batch: QueueEntry[] = [];
+
+        while (batch.length < batchSize) {
+            let next: CameraQueue;
+            for (const camera of this.cameras.values()) {
+                if (camera.entries.length && (!next || camera.virtualTime < next.virtualTime)) {
+                    next = camera;
+                }
+            }
+
+            if (!next) {
+                break;
+            }
+
+            const entry = next.entries.shift();
+            const waitMs = now - entry.enqueuedAt;
+            next.dispatched++;
+            next.totalWaitMs += waitMs;
+            next.maxWaitMs = Math.max(next.maxWaitMs, waitMs);
+            this.virtualClock = next.virtualTime;
+            next.virtualTime += 1 / next.priority;
+            batch.push(entry);
+        }
+
+        return batch;
+    }
+
+    private async dispatch() {
+        if (this.dispatching) {
+            return;
+        }
+        this.dispatching = true;
+
+        try {
+            while (true) {
+                const now = Date.now();
+                this.dropStale(now);
+
+                const batch = this.takeBatch(now);
+                if (!batch.length) {
+                    break;
+                }
+
+                // The first sample announces the batch size, so the detector can run them together
+                const dispatchedAt = Date.now();
+                await Promise.all(batch.map((entry, index) => {
+                    const session = index === 0 && batch.length > 1 ? { ...entry.session, batch: batch.length } : entry.session;
+
+                    return this.props.detect(entry.image, session)
+                        .then(detected => entry.resolve({ detected, inferenceMs: Date.now() - dispatchedAt }), entry.reject);
+                }));
+            }
+        } catch (e) {
+            this.props.logger.error('Inference queue error', e);
+        } finally {
+            this.dispatching = false;
+        }
+    }
+
+    getStats(): Record<string, CameraQueueStats> {
+        const stats: Record<string, CameraQueueStats> = {};
+
+        for (const [sourceId, camera] of this.cameras) {
+            stats[sourceId] = {
+                queued: camera.entries.length,
+                dispatched: camera.dispatched,
+                dropped: camera.dropped,
+                averageWaitMs: camera.dispatched ? Math.round(camera.totalWaitMs / camera.dispatched) : 0,
+                maxWaitMs: camera.maxWaitMs,
+            };
+        }
+
+        return stats;
+    }
+}
+
+/**
+ * Detection stream of a camera going through the shared queue, dropped frames are returned as skipped
+ * so the tracker fills them with the predicted positions.
+ */
+export const generateQueued = async function* (props: {
+    videoFrames: AsyncGenerator<VideoFrame, void>,
+    queue: InferenceQueue,
+    session: ObjectDetectionSession,
+    priority: number,
+    scheduler?: FrameScheduler,
+    hasActivity: () => boolean,
+}): AsyncGenerator<ScheduledResult, void> {
+    const { videoFrames, queue, session, priority, scheduler, hasActivity } = props;
+    let inputDimensions: [number, number];
+
+    for await (const videoFrame of videoFrames) {
+        const timestamp = videoFrame.timestamp ?? Date.now();
+        const skippedResult: ScheduledResult = {
+            skipped: true,
+            result: {
+                __json_copy_serialize_children: true,
+                videoFrame,
+                detected: { timestamp, inputDimensions, detections: [] },
+            },
+        };
+
+        if (scheduler && !scheduler.shouldDetect(timestamp, hasActivity())) {
+            yield skippedResult;
+            continue;
+        }
+
+        const queued = await queue.enqueue({ sourceId: session.sourceId, image: videoFrame.image, session, priority });
+
+        if (!queued) {
+            yield skippedResult;
+            continue;
+        }
+
+        // The wait behind other cameras is not detector latency, the scheduler would slow down for it
+        const { detected, inferenceMs: latencyMs } = queued;
+        scheduler?.recordDetection(timestamp, latencyMs);
+        inputDimensions = detected.inputDimensions ?? inputDimensions;
+
+        yield {
+            skipped: false,
+            latencyMs,
+            result: {
+                __json_copy_serialize_children: true,
+                videoFrame,
+                detected: { ...detected, timestamp },
+            },
+        };
+    }
+}
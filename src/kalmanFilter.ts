@@ -0,0 +1,120 @@
+import { Point } from "@scrypted/sdk";
+import { BoundingBox } from "./util";
+
+// Noise is scaled on the box height, so the filter behaves the same on any input resolution.
+// Velocities are in pixels per second, the process noise grows with the time between frames
+const positionStdWeight = 1 / 20;
+const velocityStdWeight = 1 / 2;
+const initialVelocityStdWeight = 1;
+
+interface AxisState {
+    x: number;
+    v: number;
+    p00: number;
+    p01: number;
+    p11: number;
+}
+
+/**
+ * Constant-velocity Kalman filter over a bounding box, tracked as
+ * 4 independent position/velocity axes: center x, center y, width and height.
+ */
+export class KalmanBoxFilter {
+    private axes: AxisState[];
+    timestamp: number;
+
+    constructor(box: BoundingBox, timestamp: number) {
+        const [cx, cy, w, h] = this.toMeasurement(box);
+        const positionVariance = (2 * positionStdWeight * h) ** 2;
+        const velocityVariance = (initialVelocityStdWeight * h) ** 2;
+
+        this.timestamp = timestamp;
+
+        this.axes = [cx, cy, w, h].map(x => ({
+            x,
+            v: 0,
+            p00: positionVariance,
+            p01: 0,
+            p11: velocityVariance,
+        }));
+    }
+
+    private toMeasurement(box: BoundingBox) {
+        const [x, y, w, h] = box;
+        return [x + w / 2, y + h / 2, w, h];
+    }
+
+    private get height() {
+        return Math.max(this.axes[3].x, 1);
+    }
+
+    predict(timestamp: number): BoundingBox {
+        const dt = Math.max(0, (timestamp - this.timestamp) / 1000);
+        this.timestamp = timestamp;
+
+        const h = this.height;
+        const qPosition = (positionStdWeight * h) ** 2;
+        const qVelocity = (velocityStdWeight * h) ** 2;
+
+        for (const axis of this.axes) {
+            axis.x += axis.v * dt;
+
+            const p00 = axis.p00 + dt * (2 * axis.p01 + dt * axis.p11) + qPosition * dt;
+            const p01 = axis.p01 + dt * axis.p11;
+            const p11 = axis.p11 + qVelocity * dt;
+
+            axis.p00 = p00;
+            axis.p01 = p01;
+            axis.p11 = p11;
+        }
+
+        return this.getBox();
+    }
+
+    update(box: BoundingBox): BoundingBox {
+        const measurement = this.toMeasurement(box);
+        const r = (positionStdWeight * this.height) ** 2;
+
+        this.axes.forEach((axis, index) => {
+            const s = axis.p00 + r;
+            const k0 = axis.p00 / s;
+            const k1 = axis.p01 / s;
+            const innovation = measurement[index] - axis.x;
+
+            axis.x += k0 * innovation;
+            axis.v += k1 * innovation;
+
+            const p00 = (1 - k0) * axis.p00;
+            const p01 = (1 - k0) * axis.p01;
+            const p11 = axis.p11 - k1 * axis.p01;
+
+            axis.p00 = p00;
+            axis.p01 = p01;
+            axis.p11 = p11;
+        });
+
+        return this.getBox();
+    }
+
+    // The zero velocity prior only learns slowly, the second observation gives a direct estimate
+    initVelocity(firstBox: BoundingBox, box: BoundingBox, dt: number) {
+        if (dt <= 0) return;
+
+        const first = this.toMeasurement(firstBox);
+        const current = this.toMeasurement(box);
+
+        this.axes.forEach((axis, index) => axis.v = (current[index] - first[index]) / dt);
+    }
+
+    getBox(): BoundingBox {
+        const [cx, cy, w, h] = this.axes.map(axis => axis.x);
+        const width = Math.max(w, 1);
+        const height = Math.max(h, 1);
+
+        return [cx - width / 2, cy - height / 2, width, height];
+    }
+
+    getVelocity(): Point {
+        return [this.axes[0].v, this.axes[1].v];
+    }
+}
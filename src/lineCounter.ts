@@ -0,0 +1,110 @@
+import sdk, { ScryptedDeviceBase, Setting, Settings, SettingValue } from "@scrypted/sdk";
+import { StorageSettings } from "@scrypted/sdk/storage-settings";
+import ObjectDetectionPlugin from "./main";
+import { LineCrossing } from "./objectTracker";
+import { LineDirection } from "./util";
+
+type DirectionCounts = Record<LineDirection, number>;
+// sourceId -> line -> className -> counts
+type LineCounts = Record<string, Record<string, Record<string, DirectionCounts>>>;
+
+export default class LineCounter extends ScryptedDeviceBase implements Settings {
+    storageSettings = new StorageSettings(this, {
+        dailyCounts: {
+            json: true,
+            hide: true,
+            defaultValue: {},
+        },
+        totalCounts: {
+            json: true,
+            hide: true,
+            defaultValue: {},
+        },
+        countsDay: {
+            type: 'string',
+            hide: true,
+        },
+        resetCounts: {
+            title: 'Reset counts',
+            description: 'Clear both daily counts and running totals',
+            type: 'button',
+            onPut: () => this.resetCounts(),
+        },
+    });
+    plugin: ObjectDetectionPlugin;
+
+    constructor(nativeId: string, plugin: ObjectDetectionPlugin) {
+        super(nativeId);
+        this.plugin = plugin;
+    }
+
+    private checkDailyReset() {
+        const today = new Date().toDateString();
+
+        if (this.storageSettings.values.countsDay !== today) {
+            this.storageSettings.values.dailyCounts = {};
+            this.storageSettings.values.countsDay = today;
+        }
+    }
+
+    resetCounts() {
+        this.console.log('Line counts reset');
+        this.storageSettings.values.dailyCounts = {};
+        this.storageSettings.values.totalCounts = {};
+    }
+
+    addCrossings(sourceId: string, crossings: LineCrossing[]) {
+        this.checkDailyReset();
+
+        const dailyCounts: LineCounts = this.storageSettings.values.dailyCounts;
+        const totalCounts: LineCounts = this.storageSettings.values.totalCounts;
+
+        const increment = (counts: LineCounts, crossing: LineCrossing) => {
+            const { line, className, direction } = crossing;
+            counts[sourceId] ||= {};
+            counts[sourceId][line] ||= {};
+            counts[sourceId][line][className] ||= { in: 0, out: 0 };
+            counts[sourceId][line][className][direction]++;
+        }
+
+        for (const crossing of crossings) {
+            increment(dailyCounts, crossing);
+            increment(totalCounts, crossing);
+        }
+
+        this.storageSettings.values.dailyCounts = dailyCounts;
+        this.storageSettings.values.totalCounts = totalCounts;
+    }
+
+    async getSettings(): Promise<Setting[]> {
+        this.checkDailyReset();
+
+        const settings = await this.storageSettings.getSettings();
+        const dailyCounts: LineCounts = this.storageSettings.values.dailyCounts;
+        const totalCounts: LineCounts = this.storageSettings.values.totalCounts;
+
+        for (const [sourceId, lines] of Object.entries(totalCounts)) {
+            const cameraName = sdk.systemManager.getDeviceById(sourceId)?.name ?? sourceId;
+
+            for (const [line, classes] of Object.entries(lines)) {
+                for (const [className, total] of Object.entries(classes)) {
+                    const daily = dailyCounts[sourceId]?.[line]?.[className] ?? { in: 0, out: 0 };
+
+                    settings.push({
+                        key: `${sourceId}:${line}:${className}`,
+                        title: `${line} - ${className}`,
+                        subgroup: cameraName,
+                        readonly: true,
+                        value: `Today in ${daily.in} / out ${daily.out}, total in ${total.in} / out ${total.out}`,
+                    });
+                }
+            }
+        }
+
+        return settings;
+    }
+
+    async putSetting(key: string, value: SettingValue): Promise<void> {
+        return this.storageSettings.putSetting(key, value);
+    }
+}
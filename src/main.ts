@@ -1,13 +1,29 @@
-import sdk, { DeviceProvider, MediaObject, ObjectDetection, ObjectDetectionGenerator, ObjectDetectionGeneratorResult, ObjectDetectionGeneratorSession, ObjectDetectionModel, ObjectDetectionSession, ObjectsDetected, ScryptedDeviceBase, ScryptedDeviceType, ScryptedInterface, ScryptedNativeId, Setting, Settings, SettingValue, VideoFrame } from '@scrypted/sdk';
+import sdk, { DeviceProvider, HttpRequest, HttpRequestHandler, HttpResponse, Image, MediaObject, ObjectDetection, ObjectDetectionGenerator, ObjectDetectionGeneratorResult, ObjectDetectionGeneratorSession, ObjectDetectionModel, ObjectDetectionSession, ObjectsDetected, ScryptedDevice, ScryptedDeviceBase, ScryptedDeviceType, ScryptedInterface, ScryptedMimeTypes, ScryptedNativeId, Setting, Settings, SettingValue, VideoFrame } from '@scrypted/sdk';
 import { StorageSettings } from "@scrypted/sdk/storage-settings";
-import { ObjectTracker } from './objectTracker';
-import { audioDetectorNativeId, getClassnameSettings, prefilterDetections } from './util';
+import { AssociationStrategy, DetectionIdPolicy, ObjectTracker, TrackerState } from './objectTracker';
+import { audioDetectorNativeId, filterOverlappedDetections, getClassAliases, getClassnameSettings, getLineSettings, getMainSettings, getZoneSettings, lineCounterNativeId, prefilterDetections, runtimeStatisticsNativeId, ZoneType } from './util';
 import BasicAudioDetector from './audioDetector';
+import LineCounter from './lineCounter';
+import { SessionRecorder } from './sessionRecorder';
+import { uniq, uniqBy } from 'lodash';
+import { EnsembleResult, fuseDetections } from './ensemble';
+import { detectTiles, mergeTileDetections, parseTileGrid, tileGrids } from './tiling';
+import { callWithFailover, DetectorDevice, DetectorHealth, generateWithFailover, isAsyncGenerator, selectDetector, withTimeout } from './detectorFailover';
+import { FrameScheduler, generateScheduled, generateUnscheduled, ScheduledResult } from './frameScheduler';
+import { SessionRegistry, SharedDetectionSession } from './sessionMultiplexer';
+import { generateQueued, InferenceQueue } from './inferenceQueue';
+import { Supervisor } from './supervisor';
+import { RuntimeStatistics } from './runtimeStatistics';
+import RuntimeStatisticsDevice from './runtimeStatisticsDevice';
 
 export const nvrAcceleratedMotionSensorId = sdk.systemManager.getDeviceById('@scrypted/nvr', 'motion')?.id;
 export const nvrObjectDetertorId = sdk.systemManager.getDeviceByName('Scrypted NVR Object Detection')?.id;
+// Tracker states are kept in memory often, written to the plugin storage on session end and rarely in between
+const trackerStateSaveInterval = 10 * 1000;
+const trackerStatePersistInterval = 5 * 60 * 1000;
+const ensembleWeightPrefix = 'ensembleWeight:';
 
-export class ObjectDetectionPlugin extends ScryptedDeviceBase implements ObjectDetection, Settings, ObjectDetectionGenerator, DeviceProvider {
+export class ObjectDetectionPlugin extends ScryptedDeviceBase implements ObjectDetection, Settings, ObjectDetectionGenerator, DeviceProvider, HttpRequestHandler {
   storageSettings = new StorageSettings(this, {
     objectDetectionDevice: {
       title: 'Object Detector',
@@ -17,14 +33,128 @@ export class ObjectDetectionPlugin extends ScryptedDeviceBase implements ObjectD
       immediate: true,
       onPut: async () => sdk.deviceManager.requestRestart()
     },
+    fallbackDetectors: {
+      title: 'Fallback detectors',
+      description: 'Detectors used in order when the main one fails or stalls, the main detector is used again once it recovers',
+      type: 'device',
+      multiple: true,
+      subgroup: 'Failover',
+      deviceFilter: `interfaces.includes('ObjectDetectionPreview') && id !== '${nvrAcceleratedMotionSensorId}' && id !== '${nvrObjectDetertorId}' && id !== '${this.id}'`,
+      immediate: true,
+    },
+    detectorStallSeconds: {
+      title: 'Stall timeout',
+      description: 'Seconds without detections after which a detector is considered stalled',
+      type: 'number',
+      subgroup: 'Failover',
+      defaultValue: 20,
+    },
+    detectorRetrySeconds: {
+      title: 'Retry interval',
+      description: 'Seconds after which a failed detector is tried again',
+      type: 'number',
+      subgroup: 'Failover',
+      defaultValue: 60,
+    },
+    inferenceQueue: {
+      title: 'Shared inference queue',
+      description: 'Send the frames of all the cameras through a single queue, served fairly by camera priority and batched together',
+      type: 'boolean',
+      subgroup: 'Inference queue',
+      immediate: true,
+    },
+    inferenceBatchSize: {
+      title: 'Batch size',
+      description: 'Maximum frames dispatched together, only raise it if the detector supports batching',
+      type: 'number',
+      subgroup: 'Inference queue',
+      defaultValue: 1,
+    },
+    maxFrameWaitMs: {
+      title: 'Max frame wait',
+      description: 'Milliseconds after which a queued frame is dropped, 0 to disable',
+      type: 'number',
+      subgroup: 'Inference queue',
+      defaultValue: 1000,
+    },
+    ensembleDetectors: {
+      title: 'Ensemble detectors',
+      description: 'Additional detectors run on the same frames, their results are merged with the main detector ones by weighted box fusion',
+      type: 'device',
+      multiple: true,
+      subgroup: 'Ensemble',
+      deviceFilter: `interfaces.includes('ObjectDetectionPreview') && id !== '${nvrAcceleratedMotionSensorId}' && id !== '${nvrObjectDetertorId}' && id !== '${this.id}'`,
+      immediate: true,
+    },
+    mainDetectorWeight: {
+      title: 'Main detector weight',
+      description: 'Weight of the main detector in the fusion, the weights of the ensemble detectors are set below',
+      type: 'number',
+      subgroup: 'Ensemble',
+      defaultValue: 1,
+    },
+    ensembleMinAgreement: {
+      title: 'Required agreement',
+      description: 'Minimum number of detectors that must detect an object for it to be kept',
+      type: 'number',
+      subgroup: 'Ensemble',
+      defaultValue: 1,
+    },
+    sessionStallSeconds: {
+      title: 'Session stall timeout',
+      description: 'Seconds without results after which a detection session is restarted, 0 to disable',
+      type: 'number',
+      subgroup: 'Supervisor',
+      defaultValue: 60,
+    },
+    trackerStateGraceSeconds: {
+      title: 'Tracker resume window',
+      description: 'Seconds within which a new session of the same camera resumes the tracks of the previous one, 0 to disable',
+      type: 'number',
+      defaultValue: 30,
+    },
+    persistTrackerState: {
+      title: 'Persist tracker state',
+      description: 'Store the tracks of each camera in the plugin storage, to resume them after a plugin restart',
+      type: 'boolean',
+      immediate: true,
+      onPut: (_, value) => this.storageSettings.values.trackerStates = value ? this.trackerStates : {}
+    },
+    trackerStates: {
+      json: true,
+      hide: true,
+      defaultValue: {},
+    },
   });
   audioDetectorDevice: BasicAudioDetector;
-  sessions = 0;
-  connectionTime = Date.now();
+  lineCounterDevice: LineCounter;
+  runtimeStatisticsDevice: RuntimeStatisticsDevice;
+  runtimeStatistics = new RuntimeStatistics();
+  sessionRegistry = new SessionRegistry();
+  inferenceQueue = new InferenceQueue({
+    detect: (image, session) => callWithFailover({
+      detectors: this.getDetectors(),
+      health: this.detectorHealth,
+      logger: this.console,
+      sourceId: session.sourceId,
+      timeoutSeconds: this.storageSettings.values.detectorStallSeconds ?? 20,
+      call: detector => detector.detectObjects(image, session),
+    }),
+    getBatchSize: () => this.storageSettings.values.inferenceBatchSize ?? 1,
+    getMaxWaitMs: () => this.storageSettings.values.maxFrameWaitMs ?? 1000,
+    logger: this.console,
+  });
+  supervisor = new Supervisor(this.console);
+  trackerStates: Record<string, TrackerState> = {};
+  detectorHealth = new DetectorHealth(() => this.storageSettings.values.detectorRetrySeconds ?? 60);
 
   constructor(nativeId?: ScryptedNativeId) {
     super(nativeId);
 
+    if (this.storageSettings.values.persistTrackerState) {
+      this.trackerStates = this.storageSettings.values.trackerStates ?? {};
+    }
+
     this.init().catch(this.console.log)
   }
 
@@ -37,33 +167,258 @@ export class ObjectDetectionPlugin extends ScryptedDeviceBase implements ObjectD
         type: ScryptedDeviceType.API,
       }
     );
-
-    setInterval(async () => {
-      const timePassed = (Date.now() - this.connectionTime) >= (1000 * 60 * 60);
-      if (timePassed && this.sessions <= 1) {
-        await sdk.deviceManager.requestRestart();
+    await sdk.deviceManager.onDeviceDiscovered(
+      {
+        name: 'Basic Line Counter',
+        nativeId: lineCounterNativeId,
+        interfaces: [ScryptedInterface.Settings],
+        type: ScryptedDeviceType.API,
+      }
+    );
+    await sdk.deviceManager.onDeviceDiscovered(
+      {
+        name: 'Basic Runtime Statistics',
+        nativeId: runtimeStatisticsNativeId,
+        interfaces: [ScryptedInterface.Settings],
+        type: ScryptedDeviceType.API,
       }
-    }, 60 * 1000);
+    );
+
+    this.supervisor.start();
   }
 
   async getDevice(nativeId: string) {
     if (nativeId === audioDetectorNativeId)
       return this.audioDetectorDevice ||= new BasicAudioDetector(audioDetectorNativeId, this);
+    if (nativeId === lineCounterNativeId)
+      return this.lineCounterDevice ||= new LineCounter(lineCounterNativeId, this);
+    if (nativeId === runtimeStatisticsNativeId)
+      return this.runtimeStatisticsDevice ||= new RuntimeStatisticsDevice(runtimeStatisticsNativeId, this);
   }
 
   async releaseDevice(id: string, nativeId: string): Promise<void> {
   }
 
-  getSettings(): Promise<Setting[]> {
-    return this.storageSettings.getSettings();
+  // Runtime statistics of every camera, served as JSON on the plugin endpoint
+  async onRequest(request: HttpRequest, response: HttpResponse): Promise<void> {
+    const statistics = Object.fromEntries(Object.entries(this.runtimeStatistics.getSnapshot()).map(([sourceId, stats]) => [
+      sourceId,
+      { name: sdk.systemManager.getDeviceById(sourceId)?.name, ...stats },
+    ]));
+
+    response.send(JSON.stringify({ timestamp: Date.now(), cameras: statistics }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  async getSettings(): Promise<Setting[]> {
+    const settings = await this.storageSettings.getSettings();
+
+    for (const detector of this.getDetectors()) {
+      const { failures, lastError } = this.detectorHealth.getStatus(detector.id);
+
+      settings.push({
+        key: `detectorStatus:${detector.id}`,
+        title: `${detector.name} status`,
+        subgroup: 'Failover',
+        readonly: true,
+        value: failures ? `Failed ${failures} times, last error: ${lastError}` : 'Healthy',
+      });
+    }
+
+    for (const [sourceId, stats] of Object.entries(this.inferenceQueue.getStats())) {
+      const { queued, dispatched, dropped, averageWaitMs, maxWaitMs } = stats;
+
+      settings.push({
+        key: `inferenceQueue:${sourceId}`,
+        title: sdk.systemManager.getDeviceById(sourceId)?.name ?? sourceId,
+        subgroup: 'Inference queue',
+        readonly: true,
+        value: `Queued ${queued}, dispatched ${dispatched}, dropped ${dropped}, wait avg ${averageWaitMs} ms / max ${maxWaitMs} ms`,
+      });
+    }
+
+    settings.push({
+      key: 'detectorSwitches',
+      title: 'Detector switches',
+      subgroup: 'Failover',
+      type: 'textarea',
+      readonly: true,
+      value: this.detectorHealth.switchEvents
+        .map(({ timestamp, sourceId, from, to, reason }) => `${new Date(timestamp).toLocaleString()} ${sdk.systemManager.getDeviceById(sourceId)?.name ?? sourceId}: ${from} -> ${to} (${reason})`)
+        .join('\n'),
+    });
+
+    for (const sourceId of this.sessionRegistry.cameraIds) {
+      const sessions = this.sessionRegistry.getCameraSessions(sourceId);
+      const consumers = sessions.reduce((acc, shared) => acc + shared.consumerCount, 0);
+
+      settings.push({
+        key: `sessions:${sourceId}`,
+        title: `${sdk.systemManager.getDeviceById(sourceId)?.name ?? sourceId} sessions`,
+        subgroup: 'Supervisor',
+        readonly: true,
+        value: `${sessions.length} detection sessions, ${consumers} consumers`,
+      });
+    }
+
+    const now = Date.now();
+    for (const { id, name, lastActivity, restarts, restarting, lastError } of this.supervisor.getStatus()) {
+      const status = restarting ? 'Restarting' : `Last activity ${Math.round((now - lastActivity) / 1000)} seconds ago`;
+
+      settings.push({
+        key: `supervisor:${id}`,
+        title: name,
+        subgroup: 'Supervisor',
+        readonly: true,
+        value: `${status}, restarted ${restarts} times${lastError ? `, last error: ${lastError}` : ''}`,
+      });
+    }
+
+    for (const { detector, weight } of this.getEnsembleDetectors()) {
+      settings.push({
+        key: `${ensembleWeightPrefix}${detector.id}`,
+        title: `${detector.name} weight`,
+        type: 'number',
+        subgroup: 'Ensemble',
+        value: weight,
+      });
+    }
+
+    return settings;
   }
 
-  putSetting(key: string, value: SettingValue): Promise<void> {
+  async putSetting(key: string, value: SettingValue): Promise<void> {
+    if (key.startsWith(ensembleWeightPrefix)) {
+      this.storage.setItem(key, String(value));
+      this.onDeviceEvent(ScryptedInterface.Settings, undefined);
+      return;
+    }
+
     return this.storageSettings.putSetting(key, value);
   }
 
+  getEnsembleDetectors() {
+    const mainDetector = this.storageSettings.values.objectDetectionDevice;
+    const devices: (ScryptedDevice & ObjectDetection)[] = this.storageSettings.values.ensembleDetectors ?? [];
+
+    return devices
+      .filter(detector => detector && detector.id !== mainDetector?.id)
+      .map(detector => ({
+        detector,
+        weight: Number(this.storage.getItem(`${ensembleWeightPrefix}${detector.id}`) ?? 1),
+      }));
+  }
+
+  // Adds the detections of the frame tiles to the full frame pass, small distant objects survive the downscale
+  async applyTiling(detected: ObjectsDetected, image: Image, session: ObjectDetectionSession, logger: Console) {
+    const { tiledInferenceSetting, tileGridSetting, tileOverlapSetting } = getMainSettings();
+    const tiledInference = JSON.parse(session?.settings?.[tiledInferenceSetting] || 'false');
+    const objectDetection = this.getObjectDetector();
+
+    if (!tiledInference || !image || !objectDetection || !detected.inputDimensions) {
+      return detected.detections;
+    }
+
+    const [columns, rows] = parseTileGrid(session.settings[tileGridSetting]);
+    const tileDetections = await detectTiles({
+      image,
+      detector: objectDetection,
+      session,
+      inputDimensions: detected.inputDimensions,
+      columns,
+      rows,
+      overlap: session.settings[tileOverlapSetting] ?? 0.2,
+      logger,
+    });
+
+    return filterOverlappedDetections(mergeTileDetections(detected.detections ?? [], tileDetections), session.settings);
+  }
+
+  // Runs the ensemble detectors on the image already processed by the main detector and fuses all the results
+  async applyEnsemble(detected: ObjectsDetected, image: MediaObject, session: ObjectDetectionSession, logger: Console) {
+    // The fallback in use already produced the detections, it is not run a second time
+    const usedDetector = this.detectorHealth.answeredBy.get(session?.sourceId ?? '');
+    const ensembleDetectors = this.getEnsembleDetectors().filter(({ detector }) => detector.id !== usedDetector?.id);
+
+    if (!ensembleDetectors.length || !image || !detected.inputDimensions) {
+      return detected.detections;
+    }
+
+    const results: EnsembleResult[] = [{ detected, weight: this.storageSettings.values.mainDetectorWeight ?? 1 }];
+    const timeoutSeconds = this.storageSettings.values.detectorStallSeconds ?? 20;
+
+    await Promise.all(ensembleDetectors.map(async ({ detector, weight }) => {
+      try {
+        // A failed or hung detector is skipped until its retry interval, instead of holding every frame
+        if (!this.detectorHealth.isAvailable(detector.id)) {
+          throw new Error(this.detectorHealth.getStatus(detector.id).lastError);
+        }
+
+        const ensembleDetected = await withTimeout(detector.detectObjects(image, session), timeoutSeconds * 1000, `no response for ${timeoutSeconds} seconds`);
+        this.detectorHealth.markSuccess(detector.id);
+        results.push({ detected: ensembleDetected, weight });
+      } catch (e) {
+        // A failing detector still counts in the total weight, its objects are missing
+        results.push({ detected: { timestamp: detected.timestamp, inputDimensions: detected.inputDimensions, detections: [] }, weight });
+
+        if (this.detectorHealth.isAvailable(detector.id)) {
+          this.detectorHealth.markFailure(detector.id, e);
+          logger.error(`Ensemble detector ${detector.name} failed`, e);
+        }
+      }
+    }));
+
+    return fuseDetections({
+      results,
+      inputDimensions: detected.inputDimensions,
+      minAgreement: this.storageSettings.values.ensembleMinAgreement ?? 1,
+      settings: session?.settings,
+    });
+  }
+
+  saveTrackerState(sourceId: string, objectTracker: ObjectTracker, persist = false) {
+    this.trackerStates[sourceId] = objectTracker.getState();
+
+    if (persist) {
+      this.persistTrackerStates();
+    }
+  }
+
+  // States out of the resume window can not be resumed anymore, they are dropped before writing
+  persistTrackerStates() {
+    const graceSeconds = this.storageSettings.values.trackerStateGraceSeconds;
+    const now = Date.now();
+
+    for (const [sourceId, state] of Object.entries(this.trackerStates)) {
+      if (!graceSeconds || now - state.savedAt > graceSeconds * 1000) {
+        delete this.trackerStates[sourceId];
+      }
+    }
+
+    if (this.storageSettings.values.persistTrackerState) {
+      this.storageSettings.values.trackerStates = this.trackerStates;
+    }
+  }
+
+  getResumableTrackerState(sourceId: string) {
+    const state = this.trackerStates[sourceId];
+    const graceSeconds = this.storageSettings.values.trackerStateGraceSeconds;
+
+    if (state && graceSeconds && (Date.now() - state.savedAt) <= graceSeconds * 1000) {
+      return state;
+    }
+  }
+
+  getDetectors(): DetectorDevice[] {
+    const mainDetector: DetectorDevice = this.storageSettings.values.objectDetectionDevice;
+    const fallbackDetectors: DetectorDevice[] = this.storageSettings.values.fallbackDetectors ?? [];
+
+    return uniqBy([mainDetector, ...fallbackDetectors].filter(Boolean), detector => detector.id);
+  }
+
   getObjectDetector(): ObjectDetection {
-    const det = this.storageSettings.values.objectDetectionDevice;
+    const det = selectDetector(this.getDetectors(), this.detectorHealth);
 
     return det;
 
@@ -110,39 +465,163 @@ export class ObjectDetectionPlugin extends ScryptedDeviceBase implements ObjectD
 
   async generateObjectDetections(videoFrames: AsyncGenerator<VideoFrame, void> | MediaObject, session: ObjectDetectionGeneratorSession): Promise<AsyncGenerator<ObjectDetectionGeneratorResult, void>> {
     const objectDetection = this.getObjectDetector();
-    const logger = this.getLogger(session);
 
     if (!objectDetection) {
       throw new Error('Object detector unavailable');
     }
 
-    const originalGen = await objectDetection.generateObjectDetections(videoFrames, session);
-    const objectTracker = new ObjectTracker({ logger, session });
+    const sharedSession = this.sessionRegistry.getOrCreate(session, () => this.createSharedSession(session));
+
+    return sharedSession.subscribe(videoFrames);
+  }
+
+  createSharedSession(session: ObjectDetectionGeneratorSession) {
+    const logger = this.getLogger(session);
+    const objectTracker = new ObjectTracker({ logger, session, statistics: this.runtimeStatistics.getCamera(session.sourceId) });
+
+    logger.log(`Object tracker session ${objectTracker.sessionId} started, settings ${JSON.stringify(session.settings)}`);
+
+    const previousState = this.getResumableTrackerState(session.sourceId);
+    if (previousState) {
+      objectTracker.restoreState(previousState);
+      logger.log(`Resumed ${previousState.tracks.length} tracks and ${previousState.lostTracks.length} lost tracks from the previous session`);
+    }
+
+    const cameraName = sdk.systemManager.getDeviceById(session.sourceId)?.name ?? session.sourceId;
+    let sharedSession: SharedDetectionSession;
+    const supervision = this.supervisor.register({
+      id: `session:${objectTracker.sessionId}`,
+      name: `${cameraName} detection session`,
+      stallSeconds: () => this.storageSettings.values.sessionStallSeconds ?? 60,
+      restart: () => sharedSession.restartPipeline(),
+    });
+
+    sharedSession = new SharedDetectionSession({
+      session,
+      logger,
+      createPipeline: videoFrames => this.generateTrackedDetections(videoFrames, session, objectTracker, logger),
+      onResult: supervision.heartbeat,
+      onError: supervision.error,
+    });
+
+    sharedSession.closed.then(() => {
+      supervision.unregister();
+      logger.log(`Object tracker session ${objectTracker.sessionId} ended`);
+      this.saveTrackerState(session.sourceId, objectTracker, true);
+    });
+
+    return sharedSession;
+  }
+
+  generateTrackedDetections(
+    videoFrames: AsyncGenerator<VideoFrame, void> | MediaObject,
+    session: ObjectDetectionGeneratorSession,
+    objectTracker: ObjectTracker,
+    logger: Console,
+  ) {
+    const detect = (frames: AsyncGenerator<VideoFrame, void> | MediaObject) => generateWithFailover({
+      videoFrames: frames,
+      session,
+      getDetectors: () => this.getDetectors(),
+      health: this.detectorHealth,
+      stallSeconds: this.storageSettings.values.detectorStallSeconds ?? 20,
+      logger,
+    });
     const basicDetectionsOnly = JSON.parse(session.settings.basicDetectionsOnly || 'false');
+    const {
+      recordSessionSetting,
+      adaptiveFrameRateSetting,
+      idleFpsSetting,
+      targetLatencyMsSetting,
+      inferencePrioritySetting,
+    } = getMainSettings();
+    const recordSession = JSON.parse(session.settings[recordSessionSetting] || 'false');
+    const adaptiveFrameRate = JSON.parse(session.settings[adaptiveFrameRateSetting] || 'false');
+    const scheduler = adaptiveFrameRate ? new FrameScheduler({
+      idleFps: session.settings[idleFpsSetting] ?? 2,
+      targetLatencyMs: session.settings[targetLatencyMsSetting] ?? 200,
+    }) : undefined;
+    const hasActivity = () => objectTracker.hasActivity();
+    const statistics = this.runtimeStatistics.getCamera(session.sourceId);
+
+    // Frame throttling and the shared queue need the frames, media objects are decoded by the detector itself
+    let originalGen: AsyncGenerator<ScheduledResult, void>;
+    if (isAsyncGenerator(videoFrames) && this.storageSettings.values.inferenceQueue) {
+      originalGen = generateQueued({
+        videoFrames,
+        queue: this.inferenceQueue,
+        session,
+        priority: session.settings[inferencePrioritySetting] ?? 1,
+        scheduler,
+        hasActivity,
+      });
+    } else if (isAsyncGenerator(videoFrames) && scheduler) {
+      originalGen = generateScheduled({ videoFrames, scheduler, hasActivity, detect });
+    } else {
+      originalGen = generateUnscheduled({ videoFrames, detect });
+    }
 
     const transformedGen = async function* () {
+      let recorder: SessionRecorder;
+      // Errors go up to the shared session, which logs them and reports them to the supervisor
       try {
-        logger.log(`Object tracker session ${objectTracker.sessionId} started, settings ${JSON.stringify(session.settings)}`);
-        this.sessions++;
+        let lastStateSave = Date.now();
+        let lastStatePersist = Date.now();
+
+        if (recordSession) {
+          recorder = new SessionRecorder({ sourceId: session.sourceId, sessionId: objectTracker.sessionId, settings: session.settings });
+          logger.log(`Recording session to ${recorder.filePath}`);
+        }
+
+        for await (const { result: detectionResult, skipped, latencyMs } of originalGen) {
+          // The tracker lifecycle runs on the frame time, fallback to the wall clock
+          detectionResult.detected.timestamp ||= detectionResult.videoFrame?.timestamp || Date.now();
+          statistics.recordFrame();
+
+          if (skipped) {
+            detectionResult.detected.detections = objectTracker.interpolate(detectionResult.detected.timestamp).active;
+            yield detectionResult;
+            continue;
+          }
 
-        for await (const detectionResult of originalGen) {
-          const now = Date.now();
-          detectionResult.detected.timestamp = now;
+          if (latencyMs !== undefined) {
+            statistics.recordLatency(latencyMs);
+          }
+
+          detectionResult.detected.detections = await this.applyTiling(detectionResult.detected, detectionResult.videoFrame?.image, session, logger);
+          detectionResult.detected.detections = await this.applyEnsemble(detectionResult.detected, detectionResult.videoFrame?.image, session, logger);
           logger.debug(`Detections incoming: ${JSON.stringify(detectionResult)}`);
+          recorder?.record(detectionResult.detected);
+
+          const appearances = basicDetectionsOnly ?
+            undefined :
+            await objectTracker.sampleAppearances(detectionResult.detected, detectionResult.videoFrame?.image);
+          const { active, pending, detectionId, zoneTransitions, lineCrossings } = objectTracker.update(detectionResult.detected, basicDetectionsOnly, appearances);
+          logger.debug(`Detections processed: ${JSON.stringify({ active, pending, detectionId, zoneTransitions, lineCrossings })}`);
 
-          const { active, pending, detectionId } = objectTracker.update(detectionResult.detected, basicDetectionsOnly);
-          logger.debug(`Detections processed: ${JSON.stringify({ active, pending, detectionId })}`);
+          if (lineCrossings.length) {
+            const lineCounter = await this.getDevice(lineCounterNativeId) as LineCounter;
+            lineCounter.addCrossings(session.sourceId, lineCrossings);
+          }
 
           detectionResult.detected.detections = active;
           detectionResult.detected.detectionId = detectionId;
 
+          if (Date.now() - lastStateSave >= trackerStateSaveInterval) {
+            const persist = Date.now() - lastStatePersist >= trackerStatePersistInterval;
+            this.saveTrackerState(session.sourceId, objectTracker, persist);
+            lastStateSave = Date.now();
+
+            if (persist) {
+              lastStatePersist = lastStateSave;
+            }
+          }
+
           yield detectionResult;
         }
-      } catch (e) {
-        logger.error(e);
       } finally {
-        logger.log(`Object tracker session ${objectTracker.sessionId} ended`);
-        this.sessions--;
+        this.saveTrackerState(session.sourceId, objectTracker);
+        recorder?.close();
       }
     }.bind(this);
 
@@ -156,9 +635,22 @@ export class ObjectDetectionPlugin extends ScryptedDeviceBase implements ObjectD
       throw new Error('Object detector unavailable');
     }
 
-    const res = await objectDetection.detectObjects(mediaObject, session);
+    const res = await callWithFailover({
+      detectors: this.getDetectors(),
+      health: this.detectorHealth,
+      logger: this.console,
+      sourceId: session?.sourceId,
+      timeoutSeconds: this.storageSettings.values.detectorStallSeconds ?? 20,
+      call: detector => detector.detectObjects(mediaObject, session),
+    });
+    const { tiledInferenceSetting } = getMainSettings();
+    if (JSON.parse(session?.settings?.[tiledInferenceSetting] || 'false')) {
+      const image = await sdk.mediaManager.convertMediaObject<Image>(mediaObject, ScryptedMimeTypes.Image);
+      res.detections = await this.applyTiling(res, image, session, this.console);
+    }
+    const detections = await this.applyEnsemble(res, mediaObject, session, this.console);
     res.detections = prefilterDetections({
-      detections: res.detections,
+      detections,
       inputDimensions: res.inputDimensions,
       settings: session?.settings,
     });
@@ -167,12 +659,44 @@ export class ObjectDetectionPlugin extends ScryptedDeviceBase implements ObjectD
 
   async getDetectionModel(settings?: { [key: string]: any; }): Promise<ObjectDetectionModel> {
     try {
-      const objectDetection = this.getObjectDetector();
-
-      const model = await objectDetection.getDetectionModel(settings);
+      const model = await callWithFailover({
+        detectors: this.getDetectors(),
+        health: this.detectorHealth,
+        logger: this.console,
+        timeoutSeconds: this.storageSettings.values.detectorStallSeconds ?? 20,
+        call: detector => detector.getDetectionModel(settings),
+      });
 
       if (model.settings) model.settings = [];
+      const {
+        associationStrategySetting,
+        zonesSetting,
+        linesSetting,
+        appearanceReidSetting,
+        reidMinSimilaritySetting,
+        reidMaxDistanceSetting,
+        recordSessionSetting,
+        detectionIdPolicySetting,
+        detectionIdRefreshSecondsSetting,
+        largeDetectionRatioSetting,
+        classAliasesSetting,
+        confusableClassesSetting,
+        tiledInferenceSetting,
+        tileGridSetting,
+        tileOverlapSetting,
+        adaptiveFrameRateSetting,
+        idleFpsSetting,
+        targetLatencyMsSetting,
+        inferencePrioritySetting,
+      } = getMainSettings();
+      // Alias targets are reported as classes of their own, so they can be enabled and tuned
+      if (model.classes) {
+        model.classes = uniq([...model.classes, ...Object.values(getClassAliases(settings))]);
+      }
       const classnames = model.classes;
+      const zoneNames: string[] = settings?.[zonesSetting] ?? [];
+      const classAliases: string[] = settings?.[classAliasesSetting] ?? [];
+      const confusableClasses: string[] = settings?.[confusableClassesSetting] ?? [];
 
       if (classnames) {
         model.settings.push({
@@ -191,6 +715,20 @@ export class ObjectDetectionPlugin extends ScryptedDeviceBase implements ObjectD
             minScoreSetting,
             iouThresholdSetting,
             movementThresholdSetting,
+            trackKeepScoreSetting,
+            maxDwellSecondsSetting,
+            dwellZoneSetting,
+            stationarySecondsSetting,
+            minConfirmationSecondsSetting,
+            maxUnseenSecondsSetting,
+            maxLostSecondsSetting,
+            detectionCooldownSecondsSetting,
+            minAreaSetting,
+            maxAreaSetting,
+            minAspectRatioSetting,
+            maxAspectRatioSetting,
+            edgeMarginSetting,
+            minTrackScoreSetting,
           } = getClassnameSettings(classname);
           model.settings.push(
             {
@@ -207,6 +745,38 @@ export class ObjectDetectionPlugin extends ScryptedDeviceBase implements ObjectD
               subgroup: classname,
               value: 3
             },
+            {
+              key: minConfirmationSecondsSetting,
+              title: `Minimum confirmation seconds`,
+              description: 'Confirm objects seen for this long instead of counting frames, 0 to use the frames',
+              type: 'number',
+              subgroup: classname,
+              value: 0
+            },
+            {
+              key: maxUnseenSecondsSetting,
+              title: `Max unseen seconds`,
+              description: 'Tracks not seen for this long are considered lost',
+              type: 'number',
+              subgroup: classname,
+              value: 3
+            },
+            {
+              key: maxLostSecondsSetting,
+              title: `Max lost seconds`,
+              description: 'Lost tracks are forgotten after this long',
+              type: 'number',
+              subgroup: classname,
+              value: 30
+            },
+            {
+              key: detectionCooldownSecondsSetting,
+              title: `Detection cooldown seconds`,
+              description: 'Minimum time between two new detections triggered by this class, 0 to disable',
+              type: 'number',
+              subgroup: classname,
+              value: 0
+            },
             {
               key: iouThresholdSetting,
               title: `IoU threshold`,
@@ -220,6 +790,85 @@ export class ObjectDetectionPlugin extends ScryptedDeviceBase implements ObjectD
               type: 'number',
               subgroup: classname,
               value: 10
+            },
+            {
+              key: trackKeepScoreSetting,
+              title: `Track keep score`,
+              description: 'Detections scoring between this value and the minimum score can only keep confirmed tracks alive, never create new ones',
+              type: 'number',
+              subgroup: classname,
+              value: 0.3
+            },
+            {
+              key: minTrackScoreSetting,
+              title: `Minimum track score`,
+              description: 'Confirmed tracks whose smoothed score falls below this value go back to pending until it recovers, 0 to disable',
+              type: 'number',
+              subgroup: classname,
+              value: 0
+            },
+            {
+              key: maxDwellSecondsSetting,
+              title: `Max dwell seconds`,
+              description: 'Confirmed objects present for longer than this are flagged as loitering, 0 to disable',
+              type: 'number',
+              subgroup: classname,
+              value: 0
+            },
+            {
+              key: dwellZoneSetting,
+              title: `Dwell zone`,
+              description: 'Only count the time spent inside this zone',
+              choices: zoneNames,
+              subgroup: classname,
+            },
+            {
+              key: stationarySecondsSetting,
+              title: `Stationary seconds`,
+              description: 'Objects moving less than the movement threshold for this long become stationary and stop triggering new detections, 0 to disable',
+              type: 'number',
+              subgroup: classname,
+              value: 0
+            },
+            {
+              key: minAreaSetting,
+              title: `Minimum area`,
+              description: 'Discard boxes smaller than this fraction of the frame (0-1), 0 to disable',
+              type: 'number',
+              subgroup: classname,
+              value: 0
+            },
+            {
+              key: maxAreaSetting,
+              title: `Maximum area`,
+              description: 'Discard boxes larger than this fraction of the frame (0-1), 0 to disable',
+              type: 'number',
+              subgroup: classname,
+              value: 0
+            },
+            {
+              key: minAspectRatioSetting,
+              title: `Minimum aspect ratio`,
+              description: 'Discard boxes with a width / height ratio below this value, 0 to disable',
+              type: 'number',
+              subgroup: classname,
+              value: 0
+            },
+            {
+              key: maxAspectRatioSetting,
+              title: `Maximum aspect ratio`,
+              description: 'Discard boxes with a width / height ratio above this value, 0 to disable',
+              type: 'number',
+              subgroup: classname,
+              value: 0
+            },
+            {
+              key: edgeMarginSetting,
+              title: `Edge margin`,
+              description: 'Discard boxes closer to the image border than this fraction of the frame side, 0 to disable',
+              type: 'number',
+              subgroup: classname,
+              value: 0
             }
           );
         }
@@ -235,6 +884,92 @@ export class ObjectDetectionPlugin extends ScryptedDeviceBase implements ObjectD
         }
       }
 
+      model.settings.push(
+        {
+          key: classAliasesSetting,
+          title: 'Class aliases',
+          description: 'Rename detector classes, in the form detector class=alias, i.e. truck=vehicle',
+          multiple: true,
+          combobox: true,
+          choices: classAliases,
+          value: classAliases,
+        },
+        {
+          key: confusableClassesSetting,
+          title: 'Confusable classes',
+          description: 'Comma separated classes the detector confuses on the same object, i.e. dog,cat. Their overlapping boxes are suppressed and tracks keep the most voted class',
+          multiple: true,
+          combobox: true,
+          choices: confusableClasses,
+          value: confusableClasses,
+        } as Setting
+      );
+
+      model.settings.push({
+        key: zonesSetting,
+        title: 'Zones',
+        description: 'Polygon zones to track objects in, each zone is configured in its own group',
+        multiple: true,
+        combobox: true,
+        choices: zoneNames,
+        value: zoneNames,
+      } as Setting);
+
+      for (const zone of zoneNames) {
+        const { zonePathSetting, zoneTypeSetting } = getZoneSettings(zone);
+        model.settings.push(
+          {
+            key: zonePathSetting,
+            title: 'Points',
+            description: 'Polygon points normalized to the frame, i.e. [[0,0],[1,0],[1,0.5],[0,0.5]]',
+            type: 'string',
+            subgroup: `Zone ${zone}`,
+            value: '[]'
+          },
+          {
+            key: zoneTypeSetting,
+            title: 'Type',
+            description: 'Inclusive zones are reported on the detections, detections in exclusive zones are discarded',
+            choices: Object.values(ZoneType),
+            subgroup: `Zone ${zone}`,
+            value: ZoneType.Inclusive
+          }
+        );
+      }
+
+      const lineNames: string[] = settings?.[linesSetting] ?? [];
+
+      model.settings.push({
+        key: linesSetting,
+        title: 'Lines',
+        description: 'Tripwires counting the confirmed objects crossing them, counts are shown on the Basic Line Counter device',
+        multiple: true,
+        combobox: true,
+        choices: lineNames,
+        value: lineNames,
+      } as Setting);
+
+      for (const line of lineNames) {
+        const { linePointsSetting, lineInvertSetting } = getLineSettings(line);
+        model.settings.push(
+          {
+            key: linePointsSetting,
+            title: 'Points',
+            description: 'Start and end points normalized to the frame, i.e. [[0,0.5],[1,0.5]]. Crossing from the right to the left side, looking from start to end, counts as in',
+            type: 'string',
+            subgroup: `Line ${line}`,
+            value: '[]'
+          },
+          {
+            key: lineInvertSetting,
+            title: 'Invert direction',
+            type: 'boolean',
+            subgroup: `Line ${line}`,
+            value: false
+          }
+        );
+      }
+
       model.settings.push(
         {
           key: 'basicDetectionsOnly',
@@ -243,6 +978,127 @@ export class ObjectDetectionPlugin extends ScryptedDeviceBase implements ObjectD
           value: false,
           immediate: true,
         },
+        {
+          key: largeDetectionRatioSetting,
+          title: 'Large detection ratio',
+          description: 'Discard boxes covering at least this fraction of the frame (0-1)',
+          type: 'number',
+          value: 0.95,
+        },
+        {
+          key: associationStrategySetting,
+          title: 'Association strategy',
+          description: 'Greedy IoU matches detections one by one, Hungarian finds the globally optimal assignment (better in crowded scenes)',
+          choices: Object.values(AssociationStrategy),
+          value: AssociationStrategy.Greedy,
+          immediate: true,
+        },
+        {
+          key: detectionIdPolicySetting,
+          title: 'New detection policy',
+          description: 'When a new detection id is emitted: only for new objects (notifiers), on any change of objects or classes, periodically while objects move (recorders) or on zone and moving state changes',
+          choices: Object.values(DetectionIdPolicy),
+          value: DetectionIdPolicy.Periodic,
+          immediate: true,
+        },
+        {
+          key: detectionIdRefreshSecondsSetting,
+          title: 'Detection refresh seconds',
+          description: 'Interval of the periodic refresh policy',
+          type: 'number',
+          value: 5,
+        },
+        {
+          key: appearanceReidSetting,
+          title: 'Appearance re-identification',
+          description: 'Recover lost tracks by comparing the color histogram of the object crops',
+          type: 'boolean',
+          subgroup: 'Re-identification',
+          value: false,
+          immediate: true,
+        },
+        {
+          key: reidMinSimilaritySetting,
+          title: 'Minimum similarity',
+          description: 'Histogram similarity (0-1) required to recover a lost track',
+          type: 'number',
+          subgroup: 'Re-identification',
+          value: 0.8,
+        },
+        {
+          key: reidMaxDistanceSetting,
+          title: 'Maximum distance',
+          description: 'Maximum distance from the last known position, as a fraction of the frame',
+          type: 'number',
+          subgroup: 'Re-identification',
+          value: 0.2,
+        },
+        {
+          key: adaptiveFrameRateSetting,
+          title: 'Adaptive frame rate',
+          description: 'Run the detector at the idle rate when nothing is pending or moving, and slow down when the detector latency grows. Skipped frames get the predicted track positions',
+          type: 'boolean',
+          subgroup: 'Frame rate',
+          value: false,
+          immediate: true,
+        },
+        {
+          key: idleFpsSetting,
+          title: 'Idle frame rate',
+          description: 'Detections per second when nothing is pending or moving',
+          type: 'number',
+          subgroup: 'Frame rate',
+          value: 2,
+        },
+        {
+          key: targetLatencyMsSetting,
+          title: 'Target detector latency',
+          description: 'Milliseconds per detection above which frames are skipped to reduce the detector load, 0 to disable',
+          type: 'number',
+          subgroup: 'Frame rate',
+          value: 200,
+        },
+        {
+          key: inferencePrioritySetting,
+          title: 'Inference priority',
+          description: 'Share of the detector given to this camera when the shared inference queue is enabled, relative to the other cameras',
+          type: 'number',
+          subgroup: 'Frame rate',
+          value: 1,
+        },
+        {
+          key: tiledInferenceSetting,
+          title: 'Tiled inference',
+          description: 'Also run the detector on overlapping tiles of the frame, to detect small distant objects on high resolution or wide angle cameras. Multiplies the detector load',
+          type: 'boolean',
+          subgroup: 'Tiling',
+          value: false,
+          immediate: true,
+        },
+        {
+          key: tileGridSetting,
+          title: 'Tile grid',
+          description: 'Columns x rows',
+          choices: tileGrids,
+          subgroup: 'Tiling',
+          value: '2x2',
+        },
+        {
+          key: tileOverlapSetting,
+          title: 'Tile overlap',
+          description: 'Overlap between neighbouring tiles, as a fraction of the tile size',
+          type: 'number',
+          subgroup: 'Tiling',
+          value: 0.2,
+        },
+        {
+          key: recordSessionSetting,
+          title: 'Record session',
+          description: 'Write the raw detections of every session to a JSONL file in the plugin volume, to replay them offline with different settings',
+          type: 'boolean',
+          value: false,
+          immediate: true,
+        },
         {
           key: 'debug',
           title: 'Log debug messages',
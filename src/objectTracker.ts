@@ -1,48 +1,216 @@
-import { ObjectDetectionGeneratorSession, ObjectDetectionResult, ObjectsDetected, Point } from "@scrypted/sdk";
+import { Image, ObjectDetectionGeneratorSession, ObjectDetectionResult, ObjectsDetected, Point } from "@scrypted/sdk";
 import { randomBytes } from "crypto";
 import { Munkres } from 'munkres-js';
-import { BoundingBox, calculateIoU, getClassnameSettings, prefilterDetections } from "./util";
-import { isEqual, sortBy, uniq } from "lodash";
+import { areClassesConfusable, BoundingBox, calculateIoU, DetectionLine, DetectionZone, getClassnameSettings, getConfusableGroups, getLineCrossingDirection, getLines, getMainSettings, getZones, getZonesForBox, LineDirection, prefilterDetections, prefilterLowScoreDetections, ZoneType } from "./util";
+import { isEqual, sortBy, uniq, xor } from "lodash";
+import { AppearanceSignature, appearanceSampleIntervalMs, blendAppearance, compareAppearance, computeAppearanceSignature } from "./appearance";
+import { KalmanBoxFilter } from "./kalmanFilter";
+import { addTrajectorySample, getTrajectoryMovement, TrackHistory, TrackMovement, TrajectorySample } from "./trajectory";
+import { CameraStatistics } from "./runtimeStatistics";
 
 interface TrackedObject extends ObjectDetectionResult {
     hits: number;
     misses: number;
-    lostFrames: number;
+    lostAt?: number;
     active: boolean;
+    // First confirmation, a track confirmed again after a demotion is not a new object
+    confirmedAt?: number;
+    kalman: KalmanBoxFilter;
+    predictedBox: BoundingBox;
+    trajectory: TrajectorySample[];
+    lastLineCheck?: number;
+    zoneEntries: Record<string, number>;
+    loitering: boolean;
+    stationary: boolean;
+    stillAnchor?: Point;
+    stillSince?: number;
+    appearance?: AppearanceSignature;
+    classVotes: Record<string, number>;
+    labelVotes: Record<string, number>;
+    bestObservation?: TrackObservation;
+}
+
+export interface TrackObservation {
+    score: number;
+    boundingBox: BoundingBox;
+    label?: string;
+    timestamp: number;
+}
+
+export type SerializedTrack = Omit<TrackedObject, 'kalman'>;
+
+export interface TrackerState {
+    savedAt: number;
+    nextTrackId: number;
+    lastDetectionId: number;
+    tracks: SerializedTrack[];
+    lostTracks: SerializedTrack[];
+    lastActiveTracks: [string, string][];
+    lastClassDetectionIds: Record<string, number>;
+}
+
+export interface TrackedDetectionResult extends ObjectDetectionResult {
+    movement?: TrackMovement;
+    history?: TrackHistory;
+    loitering?: boolean;
+    stationary?: boolean;
+    bestObservation?: TrackObservation;
+}
+
+interface AssociationResult {
+    assignedTracks: Set<string>;
+    updatedTrackIds: Set<string>;
+    newlyConfirmedIds: Set<string>;
+}
+
+export interface ZoneTransition {
+    trackId: string;
+    className: string;
+    zone: string;
+    transition: 'enter' | 'exit';
+    timestamp: number;
+}
+
+export interface LineCrossing {
+    trackId: string;
+    className: string;
+    line: string;
+    direction: LineDirection;
+    timestamp: number;
+}
+
+export enum AssociationStrategy {
+    Greedy = 'Greedy IoU',
+    Hungarian = 'Hungarian',
+}
+
+export enum DetectionIdPolicy {
+    NewObject = 'On new object only',
+    AnyChange = 'On any change',
+    Periodic = 'Periodic refresh',
+    ZoneOrMoving = 'On zone or moving state change',
+}
+
+// Cost given to track/detection pairs of different classes, never accepted as a match
+const gatedCost = 1e6;
+const defaultMaxUnseenSeconds = 3;
+const defaultMaxLostSeconds = 30;
+// Weight of the latest detection in the smoothed track score
+const scoreSmoothingFactor = 0.3;
+// Tracks seen once have no velocity yet, they can match away from their box within these bounds
+const youngTrackMaxHits = 1;
+const youngTrackMaxDistanceRatio = 2;
+const youngTrackMaxAreaRatio = 2;
+
+const addVote = (votes: Record<string, number>, key: string) => {
+    votes[key] = (votes[key] ?? 0) + 1;
+}
+
+// The current value is kept on ties, so alternating values do not flicker
+const getVotedValue = (votes: Record<string, number>, current: string) => {
+    let voted = current;
+
+    for (const [key, count] of Object.entries(votes)) {
+        if (count > (votes[voted] ?? 0)) {
+            voted = key;
+        }
+    }
+
+    return voted;
 }
 
 export class ObjectTracker {
-    maxMisses: number;
     maxEmptyFrames: number;
     lastDetectionId: number;
     tracks: Map<string, TrackedObject>;
     lostTracks: Map<string, TrackedObject>;
-    lastActiveIds: Set<string>;
+    lastActiveTracks: Map<string, string>;
+    lastClassDetectionIds: Record<string, number> = {};
+    detectionIdPolicy: DetectionIdPolicy;
+    detectionIdRefreshSeconds: number;
     nextTrackId: number;
-    maxLostFrames: number;
     logger: Console;
     session: ObjectDetectionGeneratorSession;
     sessionId = randomBytes(2).toString('hex');
     currentFrame = 0;
     useMatrix = false;
     emptyFrameCount = 0;
-    lastActiveClasses: string[] = []
+    zones: DetectionZone[];
+    lines: DetectionLine[];
+    inputDimensions: [number, number];
+    appearanceReid: boolean;
+    reidMinSimilarity: number;
+    reidMaxDistance: number;
+    lastAppearanceSample = 0;
+    frameAppearances = new Map<ObjectDetectionResult, AppearanceSignature>();
+    confusableGroups: string[][];
+    statistics: CameraStatistics;
 
     constructor({
-        maxMisses = 5,
         maxEmptyFrames = 3,
         logger,
-        session
+        session,
+        statistics = undefined,
     }) {
-        this.maxMisses = maxMisses;
         this.session = session;
+        this.statistics = statistics;
         this.maxEmptyFrames = maxEmptyFrames;
         this.logger = logger;
         this.tracks = new Map();
-        this.lastActiveIds = new Set();
+        this.lastActiveTracks = new Map();
         this.nextTrackId = 1;
         this.lostTracks = new Map();
-        this.maxLostFrames = 50;
+
+        const {
+            associationStrategySetting,
+            appearanceReidSetting,
+            reidMinSimilaritySetting,
+            reidMaxDistanceSetting,
+            detectionIdPolicySetting,
+            detectionIdRefreshSecondsSetting,
+        } = getMainSettings();
+        this.useMatrix = session?.settings?.[associationStrategySetting] === AssociationStrategy.Hungarian;
+        this.appearanceReid = JSON.parse(session?.settings?.[appearanceReidSetting] || 'false');
+        this.reidMinSimilarity = session?.settings?.[reidMinSimilaritySetting] ?? 0.8;
+        this.reidMaxDistance = session?.settings?.[reidMaxDistanceSetting] ?? 0.2;
+        this.detectionIdPolicy = session?.settings?.[detectionIdPolicySetting] ?? DetectionIdPolicy.Periodic;
+        this.detectionIdRefreshSeconds = session?.settings?.[detectionIdRefreshSecondsSetting] ?? 5;
+        this.zones = getZones(session?.settings);
+        this.lines = getLines(session?.settings);
+        this.confusableGroups = getConfusableGroups(session?.settings);
+    }
+
+    isSameObjectClass(trackClassName: string, detClassName: string) {
+        return areClassesConfusable(trackClassName, detClassName, this.confusableGroups);
+    }
+
+    // Confusable classes and recognized labels can alternate on the same object, the track reports the most seen ones
+    updateTrackObservation(track: TrackedObject, det: ObjectDetectionResult, now: number) {
+        addVote(track.classVotes, det.className);
+        const votedClassName = getVotedValue(track.classVotes, track.className);
+        if (votedClassName !== track.className) {
+            this.logger.debug(`Track ${track.id} class changed from ${track.className} to ${votedClassName}`);
+            track.className = votedClassName;
+        }
+
+        if (det.label) {
+            addVote(track.labelVotes, det.label);
+            track.label = getVotedValue(track.labelVotes, track.label);
+        }
+
+        track.score = track.score * (1 - scoreSmoothingFactor) + det.score * scoreSmoothingFactor;
+
+        if (!track.bestObservation || det.score > track.bestObservation.score) {
+            track.bestObservation = { score: det.score, boundingBox: det.boundingBox, label: det.label, timestamp: now };
+        }
+    }
+
+    // Confirmed tracks only fed by weak detections go back to pending until their score recovers
+    isBelowMinTrackScore(track: TrackedObject) {
+        const { minTrackScoreSetting } = getClassnameSettings(track.className);
+        const minTrackScore = this.session.settings[minTrackScoreSetting];
+
+        return !!minTrackScore && track.score < minTrackScore;
     }
 
     getCentroid(bbox: BoundingBox): Point {
@@ -53,18 +221,51 @@ export class ObjectTracker {
         return `${this.sessionId}-${this.currentFrame}`;
     }
 
+    /**
+     * Association score of a detection with a track, 0 when they cannot match. Above the IoU threshold it is the IoU,
+     * a track seen once can also match a similar box within a distance relative to its size, ranked below any overlap.
+     */
+    getMatchScore(track: TrackedObject, det: ObjectDetectionResult) {
+        const { iouThresholdSetting } = getClassnameSettings(track.className);
+        const iouThreshold = this.session.settings[iouThresholdSetting];
+        const iou = calculateIoU(det.boundingBox, track.predictedBox);
+
+        if (iou > iouThreshold) {
+            return iou;
+        }
+
+        if (track.hits > youngTrackMaxHits) {
+            return 0;
+        }
+
+        const [, , trackWidth, trackHeight] = track.boundingBox;
+        const [, , width, height] = det.boundingBox;
+        const size = Math.max(trackWidth, trackHeight, width, height);
+        const areaRatio = (width * height) / (trackWidth * trackHeight);
+
+        if (!size || !(areaRatio >= 1 / youngTrackMaxAreaRatio && areaRatio <= youngTrackMaxAreaRatio)) {
+            return 0;
+        }
+
+        const distanceRatio = this.distance(this.getCentroid(track.boundingBox), this.getCentroid(det.boundingBox)) / size;
+
+        if (distanceRatio > youngTrackMaxDistanceRatio) {
+            return 0;
+        }
+
+        return iouThreshold * (1 - distanceRatio / youngTrackMaxDistanceRatio);
+    }
+
     matchWithActiveTracks(det: ObjectDetectionResult) {
         let bestMatch = null;
-        let bestIOU = 0;
+        let bestScore = 0;
 
         for (const [trackId, track] of this.tracks) {
-            if (track.className !== det.className) continue;
+            if (!this.isSameObjectClass(track.className, det.className)) continue;
 
-            const iou = calculateIoU(det.boundingBox, track.boundingBox);
-            const { iouThresholdSetting } = getClassnameSettings(track.className);
-            const iouThreshold = this.session.settings[iouThresholdSetting];
-            if (iou > iouThreshold && iou > bestIOU) {
-                bestIOU = iou;
+            const score = this.getMatchScore(track, det);
+            if (score > bestScore) {
+                bestScore = score;
                 bestMatch = trackId;
             }
         }
@@ -92,18 +293,40 @@ export class ObjectTracker {
 
     //     return bestMatchId;
     // }
+    isWithinReidDistance(box1: BoundingBox, box2: BoundingBox) {
+        if (!this.inputDimensions) return false;
+
+        const [inputWidth, inputHeight] = this.inputDimensions;
+        const [x1, y1] = this.getCentroid(box1);
+        const [x2, y2] = this.getCentroid(box2);
+
+        return Math.hypot((x1 - x2) / inputWidth, (y1 - y2) / inputHeight) <= this.reidMaxDistance;
+    }
+
     matchWithLostTracks(det: ObjectDetectionResult) {
         const { iouThresholdSetting } = getClassnameSettings(det.className);
         const iouThreshold = this.session.settings[iouThresholdSetting];
+        const appearance = this.frameAppearances.get(det);
         let bestMatchId = null;
-        let bestIOU = iouThreshold;
+        let bestScore = 0;
 
         for (const [id, track] of this.lostTracks) {
-            if (track.className !== det.className) continue;
+            if (!this.isSameObjectClass(track.className, det.className)) continue;
 
             const iou = calculateIoU(det.boundingBox, track.boundingBox);
-            if (iou > bestIOU) {
-                bestIOU = iou;
+            let score = iou > iouThreshold ? iou : 0;
+
+            // Appearance can recover tracks that reappear away from their last box, within the distance gate
+            if (appearance && track.appearance && this.isWithinReidDistance(det.boundingBox, track.boundingBox)) {
+                const similarity = compareAppearance(appearance, track.appearance);
+                if (similarity >= this.reidMinSimilarity && similarity > score) {
+                    this.logger.debug(`Lost track ${id} ${track.className} appearance similarity ${similarity.toFixed(2)}`);
+                    score = similarity;
+                }
+            }
+
+            if (score > bestScore) {
+                bestScore = score;
                 bestMatchId = id;
             }
         }
@@ -111,23 +334,301 @@ export class ObjectTracker {
         return bestMatchId;
     }
 
-    processWithMatrix(detections: ObjectDetectionResult[]) {
-        const assignedTracks = new Set();
-        const updatedTrackIds = new Set();
-        const newlyConfirmedIds = new Set();
+    // Tracks missed for a few frames are not lost yet, after a short occlusion the object can reappear away from its box
+    matchWithOccludedTracks(det: ObjectDetectionResult, updatedTrackIds: Set<string>) {
+        const appearance = this.frameAppearances.get(det);
+        let bestMatchId = null;
+        let bestSimilarity = 0;
 
-        const activeTrackEntries = Array.from(this.tracks.entries());
-        const costMatrix: number[][] = [];
+        if (!appearance) {
+            return bestMatchId;
+        }
+
+        for (const [id, track] of this.tracks) {
+            if (!track.misses || !track.appearance || updatedTrackIds.has(id)) continue;
+            if (!this.isSameObjectClass(track.className, det.className)) continue;
+            if (!this.isWithinReidDistance(det.boundingBox, track.boundingBox)) continue;
+
+            const similarity = compareAppearance(appearance, track.appearance);
+            if (similarity >= this.reidMinSimilarity && similarity > bestSimilarity) {
+                this.logger.debug(`Occluded track ${id} ${track.className} appearance similarity ${similarity.toFixed(2)}`);
+                bestSimilarity = similarity;
+                bestMatchId = id;
+            }
+        }
+
+        return bestMatchId;
+    }
+
+    async sampleAppearances(detected: ObjectsDetected, image: Image) {
+        const appearances = new Map<ObjectDetectionResult, AppearanceSignature>();
+
+        if (!this.appearanceReid || !image || !detected.inputDimensions || !detected.detections?.length) {
+            return appearances;
+        }
+
+        // Sample periodically to keep track signatures fresh, on every frame while tracks can be recovered
+        const now = detected.timestamp ?? Date.now();
+        const hasRecoverableAppearances = [...this.lostTracks.values(), ...this.tracks.values()]
+            .some(track => track.appearance && (track.lostAt || track.misses));
+        if (!hasRecoverableAppearances && now - this.lastAppearanceSample < appearanceSampleIntervalMs) {
+            return appearances;
+        }
+        this.lastAppearanceSample = now;
+
+        const detections = prefilterDetections({
+            detections: detected.detections,
+            inputDimensions: detected.inputDimensions,
+            settings: this.session.settings,
+        });
 
         for (const det of detections) {
-            const row: number[] = [];
-            for (const [, track] of activeTrackEntries) {
-                const iou = calculateIoU(det.boundingBox, track.boundingBox);
-                row.push(1 - iou);
+            try {
+                const signature = await computeAppearanceSignature(image, det.boundingBox, detected.inputDimensions);
+                if (signature) {
+                    appearances.set(det, signature);
+                }
+            } catch (e) {
+                this.logger.debug(`Error computing appearance for ${det.className}`, e);
+            }
+        }
+
+        return appearances;
+    }
+
+    updateAppearance(track: TrackedObject, det: ObjectDetectionResult) {
+        const signature = this.frameAppearances.get(det);
+
+        if (signature) {
+            track.appearance = blendAppearance(track.appearance, signature);
+        }
+    }
+
+    recordObservation(track: TrackedObject, now: number) {
+        addTrajectorySample(track.trajectory, {
+            timestamp: now,
+            centroid: this.getCentroid(track.boundingBox),
+            boundingBox: track.boundingBox,
+        });
+
+        track.history = {
+            firstSeen: track.history?.firstSeen ?? now,
+            lastSeen: now,
+        };
+    }
+
+    // Confirmation is expressed either in seconds since the first sighting or in matched frames
+    canConfirm(track: TrackedObject, now: number) {
+        const { minConfirmationFramesSetting, minConfirmationSecondsSetting } = getClassnameSettings(track.className);
+        const minConfirmationSeconds = this.session.settings[minConfirmationSecondsSetting];
+
+        if (this.isBelowMinTrackScore(track)) {
+            return false;
+        }
+
+        if (minConfirmationSeconds) {
+            return now - track.history.firstSeen >= minConfirmationSeconds * 1000;
+        }
+
+        const minConfirmations = this.session.settings[minConfirmationFramesSetting];
+
+        return !minConfirmations || track.hits >= minConfirmations;
+    }
+
+    hitTrack(track: TrackedObject, det: ObjectDetectionResult, now: number) {
+        const { movementThresholdSetting } = getClassnameSettings(det.className);
+        const movementThreshold = this.session.settings[movementThresholdSetting];
+
+        const oldCentroid = this.getCentroid(track.boundingBox);
+        const newCentroid = this.getCentroid(det.boundingBox);
+        const movement = this.distance(oldCentroid, newCentroid);
+
+        if (!track.movement) {
+            track.movement = { firstSeen: undefined, lastSeen: undefined, moving: false };
+        }
+
+        track.kalman.update(det.boundingBox);
+        if (track.hits === 1) {
+            const firstSeen = track.movement.lastSeen ?? track.movement.firstSeen ?? now;
+            track.kalman.initVelocity(track.boundingBox, det.boundingBox, (now - firstSeen) / 1000);
+        }
+        track.boundingBox = det.boundingBox;
+        this.updateTrackObservation(track, det, now);
+        track.hits++;
+        track.misses = 0;
+        track.movement.lastSeen = now;
+        track.movement.moving = movement >= movementThreshold;
+        this.recordObservation(track, now);
+        this.updateAppearance(track, det);
+
+        if (track.active && this.isBelowMinTrackScore(track)) {
+            this.logger.log(`Track ${track.id} ${track.className} demoted, score ${track.score.toFixed(2)}`);
+            track.active = false;
+            return false;
+        }
+
+        if (!track.active && this.canConfirm(track, now)) {
+            track.active = true;
+
+            if (track.confirmedAt) {
+                this.logger.log(`Track ${track.id} ${track.className} confirmed again, score ${track.score.toFixed(2)}`);
+                return false;
+            }
+
+            this.logger.log(`Track ${track.id} ${track.className} confirmed`);
+            track.confirmedAt = now;
+            return true;
+        }
+
+        return false;
+    }
+
+    resumeLostTrack(track: TrackedObject, det: ObjectDetectionResult, now: number) {
+        const { movementThresholdSetting } = getClassnameSettings(det.className);
+        const movementThreshold = this.session.settings[movementThresholdSetting];
+
+        this.logger.log(`Lost track ${track.id} ${track.className} resumed`);
+
+        const oldCentroid = this.getCentroid(track.boundingBox);
+        const newCentroid = this.getCentroid(det.boundingBox);
+        const movement = this.distance(oldCentroid, newCentroid);
+
+        // The filter did not run while the track was lost, restart it from the new observation
+        track.kalman = new KalmanBoxFilter(det.boundingBox, now);
+        track.predictedBox = det.boundingBox;
+        track.boundingBox = det.boundingBox;
+        this.updateTrackObservation(track, det, now);
+        track.hits++;
+        track.misses = 0;
+        track.active = false;
+        track.lostAt = undefined;
+        track.movement.lastSeen = now;
+        track.movement.moving = movement >= movementThreshold;
+        this.recordObservation(track, now);
+        this.updateAppearance(track, det);
+
+        this.tracks.set(track.id, track);
+        this.lostTracks.delete(track.id);
+
+        if (this.canConfirm(track, now)) {
+            this.logger.log(`Track ${track.id} ${track.className} lost and confirmed`);
+            track.active = true;
+            track.confirmedAt ??= now;
+            return true;
+        }
+
+        return false;
+    }
+
+    createTrack(det: ObjectDetectionResult, now: number) {
+        const { minConfirmationFramesSetting, minConfirmationSecondsSetting } = getClassnameSettings(det.className);
+        const minConfirmations = this.session.settings[minConfirmationFramesSetting];
+        const minConfirmationSeconds = this.session.settings[minConfirmationSecondsSetting];
+        const newId = (this.nextTrackId++).toString(36);
+
+        const track: TrackedObject = {
+            id: newId,
+            boundingBox: det.boundingBox,
+            className: det.className,
+            label: det.label,
+            score: det.score,
+            hits: 1,
+            misses: 0,
+            active: false,
+            kalman: new KalmanBoxFilter(det.boundingBox, now),
+            predictedBox: det.boundingBox,
+            trajectory: [],
+            zoneEntries: {},
+            classVotes: { [det.className]: 1 },
+            labelVotes: det.label ? { [det.label]: 1 } : {},
+            bestObservation: { score: det.score, boundingBox: det.boundingBox, label: det.label, timestamp: now },
+            loitering: false,
+            stationary: false,
+            movement: {
+                firstSeen: now,
+                lastSeen: undefined,
+                moving: false,
+            }
+        };
+        this.recordObservation(track, now);
+        this.updateAppearance(track, det);
+
+        if (this.canConfirm(track, now)) {
+            this.logger.log(`Track ${newId} ${det.className} created and confirmed`);
+            track.active = true;
+            track.confirmedAt = now;
+        } else {
+            const confirmation = minConfirmationSeconds ? `${minConfirmationSeconds} seconds` : `${minConfirmations} frames`;
+            this.logger.log(`Track ${newId} ${det.className} started (${confirmation} for confirmation)`);
+        }
+
+        this.tracks.set(newId, track);
+
+        return track;
+    }
+
+    processUnmatched(det: ObjectDetectionResult, now: number, result: AssociationResult) {
+        const { assignedTracks, updatedTrackIds, newlyConfirmedIds } = result;
+
+        const occludedMatchId = this.matchWithOccludedTracks(det, updatedTrackIds);
+        if (occludedMatchId) {
+            const track = this.tracks.get(occludedMatchId);
+            this.logger.log(`Track ${track.id} ${track.className} re-identified after ${track.misses} missed frames`);
+
+            if (this.hitTrack(track, det, now)) {
+                newlyConfirmedIds.add(track.id);
             }
-            costMatrix.push(row);
+
+            assignedTracks.add(occludedMatchId);
+            updatedTrackIds.add(occludedMatchId);
+            return;
         }
 
+        // Try match with lost tracks
+        const lostMatchId = this.matchWithLostTracks(det);
+        if (lostMatchId && !assignedTracks.has(lostMatchId)) {
+            const track = this.lostTracks.get(lostMatchId);
+
+            if (track) {
+                if (this.resumeLostTrack(track, det, now)) {
+                    newlyConfirmedIds.add(track.id);
+                }
+
+                assignedTracks.add(lostMatchId);
+                updatedTrackIds.add(lostMatchId);
+                return;
+            }
+        }
+
+        // No match: new track
+        const track = this.createTrack(det, now);
+
+        if (track.active) {
+            assignedTracks.add(track.id);
+            newlyConfirmedIds.add(track.id);
+        }
+
+        updatedTrackIds.add(track.id);
+    }
+
+    processWithMatrix(detections: ObjectDetectionResult[], now: number): AssociationResult {
+        const result: AssociationResult = {
+            assignedTracks: new Set(),
+            updatedTrackIds: new Set(),
+            newlyConfirmedIds: new Set(),
+        };
+        const { assignedTracks, updatedTrackIds, newlyConfirmedIds } = result;
+        const matchedDetections = new Set<number>();
+
+        const activeTrackEntries = Array.from(this.tracks.entries());
+        const costMatrix: number[][] = detections.map(det => activeTrackEntries.map(([, track]) => {
+            if (!this.isSameObjectClass(track.className, det.className)) {
+                return gatedCost;
+            }
+
+            return 1 - this.getMatchScore(track, det);
+        }));
+
         let assignments: [number, number][] = [];
 
         if (costMatrix.length > 0 && costMatrix[0].length > 0) {
@@ -138,112 +639,48 @@ export class ObjectTracker {
         for (const [detIdx, trackIdx] of assignments) {
             const cost = costMatrix[detIdx][trackIdx];
             const det = detections[detIdx];
-            const { iouThresholdSetting, minConfirmationFramesSetting, movementThresholdSetting } = getClassnameSettings(det.className);
-            const iouThreshold = this.session.settings[iouThresholdSetting];
-            const minConfirmations = this.session.settings[minConfirmationFramesSetting];
-            const movementThreshold = this.session.settings[movementThresholdSetting];
 
-            if (cost > (1 - iouThreshold)) continue;
+            // A zero score is no match
+            if (cost >= 1) continue;
 
             const [trackId, track] = activeTrackEntries[trackIdx];
 
-            const oldCentroid = this.getCentroid(track.boundingBox);
-            const newCentroid = this.getCentroid(det.boundingBox);
-            const movement = this.distance(oldCentroid, newCentroid);
-            const now = Date.now();
-
-            track.boundingBox = det.boundingBox;
-            track.className = det.className;
-            track.label = det.label;
-            track.score = det.score;
-            track.hits++;
-            track.misses = 0;
-            track.active = track.active || track.hits >= minConfirmations;
-            track.movement.lastSeen = now;
-            track.movement.moving = movement >= movementThreshold;
-
-            if (!track.active && track.hits >= minConfirmations) {
-                this.logger.log(`Track ${trackId} ${det.className} confirmed`);
-                track.active = true;
-                newlyConfirmedIds.add(track.id);
+            if (this.hitTrack(track, det, now)) {
+                newlyConfirmedIds.add(trackId);
             }
 
+            matchedDetections.add(detIdx);
             assignedTracks.add(trackId);
             updatedTrackIds.add(trackId);
         }
 
-        for (let i = 0; i < detections.length; i++) {
-            const wasAssigned = assignments.some(([detIdx]) => detIdx === i);
-            if (!wasAssigned) {
-                const det = detections[i];
-                const now = Date.now();
-                const newId = (this.nextTrackId++).toString(36);
-                this.tracks.set(newId, {
-                    id: newId,
-                    boundingBox: det.boundingBox,
-                    className: det.className,
-                    score: det.score,
-                    label: det.label,
-                    hits: 1,
-                    misses: 0,
-                    lostFrames: 0,
-                    active: false,
-                    movement: {
-                        firstSeen: now,
-                        lastSeen: undefined,
-                        moving: false,
-                    }
-                });
-                updatedTrackIds.add(newId);
+        detections.forEach((det, detIdx) => {
+            if (!matchedDetections.has(detIdx)) {
+                this.processUnmatched(det, now, result);
             }
-        }
+        });
 
-        return {
-            assignedTracks,
-            updatedTrackIds,
-            newlyConfirmedIds,
-        }
+        return result;
     }
 
-    processWithIOU(detections: ObjectDetectionResult[]) {
-        const assignedTracks = new Set();
-        const updatedTrackIds = new Set();
-        const newlyConfirmedIds = new Set();
-        const now = Date.now();
+    processWithIOU(detections: ObjectDetectionResult[], now: number): AssociationResult {
+        const result: AssociationResult = {
+            assignedTracks: new Set(),
+            updatedTrackIds: new Set(),
+            newlyConfirmedIds: new Set(),
+        };
+        const { assignedTracks, updatedTrackIds, newlyConfirmedIds } = result;
+        const unmatchedDetections: ObjectDetectionResult[] = [];
 
         for (const det of detections) {
             const matchId = this.matchWithActiveTracks(det);
 
-            const { minConfirmationFramesSetting, movementThresholdSetting } = getClassnameSettings(det.className);
-            const minConfirmations = this.session.settings[minConfirmationFramesSetting];
-            const movementThreshold = this.session.settings[movementThresholdSetting];
-
             if (matchId && !assignedTracks.has(matchId)) {
                 const track = this.tracks.get(matchId);
 
                 if (!track) continue;
 
-                const oldCentroid = this.getCentroid(track.boundingBox);
-                const newCentroid = this.getCentroid(det.boundingBox);
-                const movement = this.distance(oldCentroid, newCentroid);
-
-                if (!track.movement) {
-                    track.movement = { firstSeen: undefined, lastSeen: undefined, moving: false };
-                }
-
-                track.boundingBox = det.boundingBox;
-                track.className = det.className;
-                track.label = det.label;
-                track.score = det.score;
-                track.hits++;
-                track.misses = 0;
-                track.active = track.active || track.hits >= minConfirmations;
-                track.movement.lastSeen = now;
-                track.movement.moving = movement >= movementThreshold;
-
-                if (!track.active && (track.hits >= minConfirmations || !minConfirmations)) {
-                    this.logger.log(`Track ${track.id} ${det.className} confirmed`);
-                    track.active = true;
+                if (this.hitTrack(track, det, now)) {
                     newlyConfirmedIds.add(track.id);
                 }
 
@@ -252,82 +689,50 @@ export class ObjectTracker {
                 continue;
             }
 
-            // Try match with lost tracks
-            const lostMatchId = this.matchWithLostTracks(det);
-            if (lostMatchId && !assignedTracks.has(lostMatchId)) {
-                const track = this.lostTracks.get(lostMatchId);
-
-                if (!track) continue;
+            unmatchedDetections.push(det);
+        }
 
-                this.logger.log(`Lost track ${track.id} ${track.className} resumed`);
-
-                const oldCentroid = this.getCentroid(track.boundingBox);
-                const newCentroid = this.getCentroid(det.boundingBox);
-                const movement = this.distance(oldCentroid, newCentroid);
-
-                track.boundingBox = det.boundingBox;
-                track.className = det.className;
-                track.label = det.label;
-                track.score = det.score;
-                track.hits++;
-                track.misses = 0;
-                track.active = track.hits >= minConfirmations;
-                track.lostFrames = 0;
-                track.movement.lastSeen = now;
-                track.movement.moving = movement >= movementThreshold;
-
-                if (!track.active && (track.hits >= minConfirmations || !minConfirmations)) {
-                    this.logger.log(`Track ${track.id} ${det.className} lost and confirmed`);
-                    track.active = true;
-                    newlyConfirmedIds.add(track.id);
-                }
+        // Once the overlaps are taken, so re-identification does not claim a track matched later in the frame
+        for (const det of unmatchedDetections) {
+            this.processUnmatched(det, now, result);
+        }
 
-                this.tracks.set(track.id, track);
-                this.lostTracks.delete(track.id);
+        return result;
+    }
+    // Second association stage: low score detections can only extend confirmed tracks left unmatched
+    processLowScore(lowScoreDetections: ObjectDetectionResult[], highScoreDetections: ObjectDetectionResult[], result: AssociationResult, now: number) {
+        const { assignedTracks, updatedTrackIds } = result;
 
-                assignedTracks.add(lostMatchId);
-                updatedTrackIds.add(lostMatchId);
-                continue;
-            }
+        for (const det of sortBy(lowScoreDetections, det => -det.score)) {
+            const { iouThresholdSetting } = getClassnameSettings(det.className);
+            const iouThreshold = this.session.settings[iouThresholdSetting];
 
-            // No match: new track
-            const newId = (this.nextTrackId++).toString(36);
+            const overlapsHighScore = highScoreDetections.some(highDet =>
+                this.isSameObjectClass(highDet.className, det.className) &&
+                calculateIoU(highDet.boundingBox, det.boundingBox) > iouThreshold
+            );
+            if (overlapsHighScore) continue;
 
-            const track = {
-                id: newId,
-                boundingBox: det.boundingBox,
-                className: det.className,
-                label: det.label,
-                score: det.score,
-                hits: 1,
-                misses: 0,
-                lostFrames: 0,
-                active: false,
-                movement: {
-                    firstSeen: now,
-                    lastSeen: undefined,
-                    moving: false,
-                }
-            };
+            let bestMatch: TrackedObject;
+            let bestIOU = iouThreshold;
 
-            if (!minConfirmations || minConfirmations <= 1) {
-                this.logger.log(`Track ${newId} ${det.className} created and confirmed`);
-                track.active = true;
+            for (const [trackId, track] of this.tracks) {
+                if (!track.active || updatedTrackIds.has(trackId) || !this.isSameObjectClass(track.className, det.className)) continue;
 
-                assignedTracks.add(track.id);
-                newlyConfirmedIds.add(track.id);
-            } else {
-                this.logger.log(`Track ${newId} ${det.className} started (${minConfirmations} frames for confirmation)`);
+                const iou = calculateIoU(det.boundingBox, track.predictedBox);
+                if (iou > bestIOU) {
+                    bestIOU = iou;
+                    bestMatch = track;
+                }
             }
 
-            this.tracks.set(newId, track);
-            updatedTrackIds.add(newId);
-        }
+            if (bestMatch) {
+                this.logger.debug(`Track ${bestMatch.id} ${det.className} kept by low score detection (${det.score})`);
+                this.hitTrack(bestMatch, det, now);
 
-        return {
-            assignedTracks,
-            updatedTrackIds,
-            newlyConfirmedIds,
+                assignedTracks.add(bestMatch.id);
+                updatedTrackIds.add(bestMatch.id);
+            }
         }
     }
 
@@ -346,19 +751,295 @@ export class ObjectTracker {
         }
     }
 
-    buildActiveTracks() {
-        const active: ObjectDetectionResult[] = [];
-        const pending: ObjectDetectionResult[] = [];
+    getState(): TrackerState {
+        const serialize = ({ kalman, ...track }: TrackedObject): SerializedTrack => track;
+
+        return {
+            savedAt: Date.now(),
+            nextTrackId: this.nextTrackId,
+            lastDetectionId: this.lastDetectionId,
+            tracks: [...this.tracks.values()].map(serialize),
+            lostTracks: [...this.lostTracks.values()].map(serialize),
+            lastActiveTracks: [...this.lastActiveTracks.entries()],
+            lastClassDetectionIds: { ...this.lastClassDetectionIds },
+        };
+    }
+
+    // Resumed tracks restart the motion model from their last observed box
+    restoreState(state: TrackerState) {
+        const restore = (track: SerializedTrack): [string, TrackedObject] => [track.id, {
+            ...track,
+            kalman: new KalmanBoxFilter(track.boundingBox, track.history?.lastSeen ?? state.savedAt),
+            predictedBox: track.boundingBox,
+            classVotes: track.classVotes ?? { [track.className]: track.hits },
+            labelVotes: track.labelVotes ?? (track.label ? { [track.label]: track.hits } : {}),
+        }];
+
+        this.nextTrackId = state.nextTrackId;
+        this.lastDetectionId = state.lastDetectionId;
+        this.tracks = new Map(state.tracks.map(restore));
+        this.lostTracks = new Map(state.lostTracks.map(restore));
+        this.lastActiveTracks = new Map(state.lastActiveTracks);
+        this.lastClassDetectionIds = { ...state.lastClassDetectionIds };
+    }
+
+    predictTracks(now: number) {
+        for (const track of this.tracks.values()) {
+            track.predictedBox = track.kalman.predict(now);
+        }
+    }
+
+    getTrackBox(track: TrackedObject) {
+        // Missed tracks coast on the predicted box
+        return track.misses ? track.predictedBox : track.boundingBox;
+    }
+
+    // Pending or moving tracks need every frame, otherwise detection can run at a lower rate
+    hasActivity() {
+        return [...this.tracks.values()].some(track => !track.active || track.movement?.moving);
+    }
+
+    // Frames skipped by the scheduler only move the tracks to their predicted position, the lifecycle is untouched
+    interpolate(timestamp: number) {
+        this.predictTracks(timestamp);
+
+        return this.buildActiveTracks(true);
+    }
+
+    updateTrackZones(now: number) {
+        const transitions: ZoneTransition[] = [];
+        const inclusionZones = this.zones.filter(zone => zone.type === ZoneType.Inclusive);
+
+        if (!inclusionZones.length) {
+            return transitions;
+        }
+
+        const addTransitions = (track: TrackedObject, currentZones: string[]) => {
+            const previousZones = track.zones ?? [];
+
+            for (const zone of currentZones) {
+                if (!previousZones.includes(zone)) {
+                    track.zoneEntries[zone] = now;
+                    transitions.push({ trackId: track.id, className: track.className, zone, transition: 'enter', timestamp: now });
+                }
+            }
+            for (const zone of previousZones) {
+                if (!currentZones.includes(zone)) {
+                    delete track.zoneEntries[zone];
+                    transitions.push({ trackId: track.id, className: track.className, zone, transition: 'exit', timestamp: now });
+                }
+            }
+
+            track.zones = currentZones;
+        }
+
+        // Only confirmed tracks are announced in zones
+        for (const track of this.tracks.values()) {
+            const currentZones = track.active ?
+                getZonesForBox(this.getTrackBox(track), this.inputDimensions, inclusionZones).map(zone => zone.name) :
+                [];
+            addTransitions(track, currentZones);
+        }
+
+        for (const track of this.lostTracks.values()) {
+            addTransitions(track, []);
+        }
+
+        for (const { trackId, className, zone, transition } of transitions) {
+            this.logger.log(`Track ${trackId} ${className} ${transition === 'enter' ? 'entered' : 'exited'} zone ${zone}`);
+        }
+
+        return transitions;
+    }
+
+    updateLoitering(now: number) {
+        const newlyLoiteringIds = new Set<string>();
+
+        for (const track of this.tracks.values()) {
+            const { maxDwellSecondsSetting, dwellZoneSetting } = getClassnameSettings(track.className);
+            const maxDwellSeconds = this.session.settings[maxDwellSecondsSetting];
+            const dwellZone = this.session.settings[dwellZoneSetting];
+
+            if (!track.active || !maxDwellSeconds) continue;
+
+            const dwellStart = dwellZone ? track.zoneEntries[dwellZone] : track.movement?.firstSeen;
+            const isLoitering = !!dwellStart && (now - dwellStart) >= maxDwellSeconds * 1000;
+
+            if (isLoitering && !track.loitering) {
+                this.logger.log(`Track ${track.id} ${track.className} loitering for ${Math.round((now - dwellStart) / 1000)} seconds${dwellZone ? ` in zone ${dwellZone}` : ''}`);
+                newlyLoiteringIds.add(track.id);
+            }
+
+            track.loitering = isLoitering;
+        }
+
+        return newlyLoiteringIds;
+    }
+
+    // Only tracks observed on this frame are evaluated, so the state survives detector dropouts
+    updateStationary(now: number, updatedTrackIds: Set<string>) {
+        const movingAgainIds = new Set<string>();
+        const stationaryIds = new Set<string>();
+
+        for (const track of this.tracks.values()) {
+            if (!updatedTrackIds.has(track.id)) continue;
+
+            const { movementThresholdSetting, stationarySecondsSetting } = getClassnameSettings(track.className);
+            const movementThreshold = this.session.settings[movementThresholdSetting];
+            const stationarySeconds = this.session.settings[stationarySecondsSetting];
+            const centroid = this.getCentroid(track.boundingBox);
+
+            if (!track.stillAnchor || this.distance(track.stillAnchor, centroid) >= movementThreshold) {
+                if (track.stationary) {
+                    this.logger.log(`Track ${track.id} ${track.className} moving again`);
+                    track.stationary = false;
+                    movingAgainIds.add(track.id);
+                }
+
+                track.stillAnchor = centroid;
+                track.stillSince = now;
+                continue;
+            }
+
+            if (track.active && stationarySeconds && !track.stationary && (now - track.stillSince) >= stationarySeconds * 1000) {
+                this.logger.log(`Track ${track.id} ${track.className} stationary for ${Math.round((now - track.stillSince) / 1000)} seconds`);
+                track.stationary = true;
+                stationaryIds.add(track.id);
+            }
+        }
+
+        return { movingAgainIds, stationaryIds };
+    }
+
+    // Classes of the tracks that justify a new detection id under the configured policy
+    getSceneChangeClasses(now: number, props: {
+        active: TrackedDetectionResult[],
+        newlyConfirmedIds: Set<string>,
+        newlyLoiteringIds: Set<string>,
+        movingAgainIds: Set<string>,
+        stationaryIds: Set<string>,
+        zoneTransitions: ZoneTransition[],
+    }) {
+        const { active, newlyConfirmedIds, newlyLoiteringIds, movingAgainIds, stationaryIds, zoneTransitions } = props;
+        const activeTracks = active.filter(det => det.id);
+        const currentActiveTracks = new Map(activeTracks.map(det => [det.id, det.className]));
+        // Stationary tracks never trigger a new detection by themselves
+        const movingActiveTracks = activeTracks.filter(det => !det.stationary);
+        const classes = new Set<string>();
+
+        const addTracks = (ids: Iterable<string>) => {
+            for (const id of ids) {
+                const className = currentActiveTracks.get(id) ?? this.lastActiveTracks.get(id);
+                if (className) {
+                    classes.add(className);
+                }
+            }
+        }
+
+        const newIds = [...newlyConfirmedIds].filter(id => !this.tracks.get(id)?.stationary);
+        // In an empty scene the moving tracks are new, except the ones back from a demotion
+        if (!this.lastActiveTracks.size) {
+            newIds.push(...movingActiveTracks
+                .filter(det => (this.tracks.get(det.id)?.confirmedAt ?? now) >= now)
+                .map(det => det.id));
+        }
+        addTracks(newIds);
+        addTracks(newlyLoiteringIds);
+
+        if (this.detectionIdPolicy === DetectionIdPolicy.NewObject) {
+            return classes;
+        }
+
+        if (this.detectionIdPolicy === DetectionIdPolicy.ZoneOrMoving) {
+            zoneTransitions.forEach(transition => classes.add(transition.className));
+            addTracks(movingAgainIds);
+            addTracks(stationaryIds);
+
+            return classes;
+        }
+
+        addTracks(movingAgainIds);
+        addTracks([...this.lastActiveTracks.keys()].filter(id => !currentActiveTracks.has(id)));
+
+        if (this.detectionIdPolicy === DetectionIdPolicy.AnyChange) {
+            const currentClasses = uniq([...currentActiveTracks.values()]);
+            const lastClasses = uniq([...this.lastActiveTracks.values()]);
+            xor(currentClasses, lastClasses).forEach(className => classes.add(className));
+        } else if (this.detectionIdPolicy === DetectionIdPolicy.Periodic) {
+            const refreshDue = !this.lastDetectionId || (now - this.lastDetectionId) >= this.detectionIdRefreshSeconds * 1000;
+            if (refreshDue) {
+                movingActiveTracks.forEach(det => classes.add(det.className));
+            }
+        }
+
+        return classes;
+    }
+
+    updateLineCrossings(updatedTrackIds: Set<string>) {
+        const crossings: LineCrossing[] = [];
+
+        if (!this.lines.length || !this.inputDimensions) {
+            return crossings;
+        }
+
+        const [inputWidth, inputHeight] = this.inputDimensions;
+        const normalize = (point: Point): Point => [point[0] / inputWidth, point[1] / inputHeight];
+
+        for (const track of this.tracks.values()) {
+            if (!track.active || !updatedTrackIds.has(track.id)) continue;
+
+            // Tracks confirmed on this frame also count the crossings done while pending
+            for (let i = 1; i < track.trajectory.length; i++) {
+                const from = track.trajectory[i - 1];
+                const to = track.trajectory[i];
+
+                if (track.lastLineCheck && to.timestamp <= track.lastLineCheck) continue;
+
+                for (const line of this.lines) {
+                    const direction = getLineCrossingDirection(normalize(from.centroid), normalize(to.centroid), line);
+
+                    if (direction) {
+                        this.logger.log(`Track ${track.id} ${track.className} crossed line ${line.name} (${direction})`);
+                        crossings.push({
+                            trackId: track.id,
+                            className: track.className,
+                            line: line.name,
+                            direction,
+                            timestamp: to.timestamp,
+                        });
+                    }
+                }
+            }
+
+            track.lastLineCheck = track.trajectory[track.trajectory.length - 1]?.timestamp;
+        }
+
+        return crossings;
+    }
+
+    buildActiveTracks(predicted = false) {
+        const active: TrackedDetectionResult[] = [];
+        const pending: TrackedDetectionResult[] = [];
 
         for (const track of this.tracks.values()) {
             (track.active ? active : pending).push({
                 className: track.className,
                 score: track.score,
-                boundingBox: track.boundingBox,
-                movement: track.movement,
+                boundingBox: predicted ? track.predictedBox : this.getTrackBox(track),
+                movement: {
+                    ...track.movement,
+                    ...getTrajectoryMovement(track.trajectory),
+                },
                 id: track.id,
                 label: track.label,
-                history: track.history
+                zones: track.zones,
+                loitering: track.loitering,
+                stationary: track.stationary,
+                bestObservation: track.bestObservation,
+                history: {
+                    ...track.history,
+                    trajectory: [...track.trajectory],
+                },
             });
         }
 
@@ -368,7 +1049,7 @@ export class ObjectTracker {
     }
 
 
-    update(detected: ObjectsDetected, basicDetectionsOnly: boolean) {
+    update(detected: ObjectsDetected, basicDetectionsOnly: boolean, appearances?: Map<ObjectDetectionResult, AppearanceSignature>) {
         const detectionsRaw: ObjectDetectionResult[] = detected.detections || [];
 
         // if ((!detectionsRaw || detectionsRaw.length === 0) && this.emptyFrameCount++ < this.maxEmptyFrames) {
@@ -384,36 +1065,60 @@ export class ObjectTracker {
         // }
 
         this.emptyFrameCount = 0;
+        const now = detected.timestamp ?? Date.now();
+        this.inputDimensions = detected.inputDimensions;
+        this.frameAppearances = appearances ?? new Map();
 
         const detections = prefilterDetections({
             detections: detectionsRaw,
             inputDimensions: detected.inputDimensions,
             settings: this.session.settings,
+            onDropped: (reason, count) => this.statistics?.recordDropped(reason, count),
         });
 
         this.logger.debug(`Prefiltered result: ${JSON.stringify(detections)}`);
 
         if (basicDetectionsOnly) {
+            const inclusionZones = this.zones.filter(zone => zone.type === ZoneType.Inclusive);
+            for (const det of detections) {
+                det.zones = getZonesForBox(det.boundingBox, this.inputDimensions, inclusionZones).map(zone => zone.name);
+            }
+
             detections.push(...this.addMotionEntries(detections));
 
             this.currentFrame++;
 
-            return { active: detections, pending: [], detectionId: undefined };
+            return { active: detections, pending: [], detectionId: undefined, zoneTransitions: [] as ZoneTransition[], lineCrossings: [] as LineCrossing[] };
         }
 
+        const lowScoreDetections = prefilterLowScoreDetections({
+            detections: detectionsRaw,
+            inputDimensions: detected.inputDimensions,
+            settings: this.session.settings,
+        });
+
+        this.predictTracks(now);
+
+        const associationResult = this.useMatrix ?
+            this.processWithMatrix(detections, now) :
+            this.processWithIOU(detections, now);
+        this.processLowScore(lowScoreDetections, detections, associationResult, now);
+
         const {
             newlyConfirmedIds,
             updatedTrackIds
-        } = this.useMatrix ?
-                this.processWithMatrix(detections) :
-                this.processWithIOU(detections);
+        } = associationResult;
 
         // Check not updated tracks
         for (const [trackId, track] of this.tracks) {
             if (!updatedTrackIds.has(trackId)) {
                 track.misses++;
-                if (track.misses >= this.maxMisses) {
-                    track.lostFrames = 0;
+
+                const { maxUnseenSecondsSetting } = getClassnameSettings(track.className);
+                const maxUnseenSeconds = this.session.settings[maxUnseenSecondsSetting] ?? defaultMaxUnseenSeconds;
+
+                if (now - track.history.lastSeen >= maxUnseenSeconds * 1000) {
+                    track.lostAt = now;
                     this.lostTracks.set(track.id, track);
                     this.tracks.delete(trackId);
                 } else {
@@ -424,37 +1129,61 @@ export class ObjectTracker {
 
         // Cleanup old lost tracks
         for (const [id, lostTrack] of this.lostTracks) {
-            lostTrack.lostFrames++;
-            if (lostTrack.lostFrames > this.maxLostFrames) {
+            const { maxLostSecondsSetting } = getClassnameSettings(lostTrack.className);
+            const maxLostSeconds = this.session.settings[maxLostSecondsSetting] ?? defaultMaxLostSeconds;
+
+            if (now - lostTrack.lostAt > maxLostSeconds * 1000) {
                 this.logger.log(`Track ${lostTrack.id} ${lostTrack.className} lost for too long, removing`);
                 this.lostTracks.delete(id);
             }
         }
 
+        const zoneTransitions = this.updateTrackZones(now);
+        const lineCrossings = this.updateLineCrossings(updatedTrackIds);
+        const newlyLoiteringIds = this.updateLoitering(now);
+        const { movingAgainIds, stationaryIds } = this.updateStationary(now, updatedTrackIds);
+
         const { active, pending } = this.buildActiveTracks();
-        const activeClasses = sortBy(active.map(item => item.className));
 
-        const now = Date.now();
-        const currentActiveIds = new Set(active.map(t => t.id));
-        const sceneChanged =
-            newlyConfirmedIds.size > 0 ||
-            this.lastActiveIds.size === 0 && currentActiveIds.size > 0 ||
-            [...this.lastActiveIds].some(id => !currentActiveIds.has(id))
-            || (!!active.length && (!this.lastDetectionId || (now - this.lastDetectionId) > 5 * 1000))
-        // || !isEqual(activeClasses, this.lastActiveClasses)
+        const sceneChangeClasses = this.getSceneChangeClasses(now, {
+            active,
+            newlyConfirmedIds,
+            newlyLoiteringIds,
+            movingAgainIds,
+            stationaryIds,
+            zoneTransitions,
+        });
 
-        const detectionId = sceneChanged ? this.getNewDetectionId() : undefined;
+        // Classes still in their cooldown do not trigger a new detection
+        const triggerClasses = [...sceneChangeClasses].filter(className => {
+            const { detectionCooldownSecondsSetting } = getClassnameSettings(className);
+            const cooldownSeconds = this.session.settings[detectionCooldownSecondsSetting];
+            const lastClassDetectionId = this.lastClassDetectionIds[className];
+
+            return !cooldownSeconds || !lastClassDetectionId || (now - lastClassDetectionId) >= cooldownSeconds * 1000;
+        });
+
+        const detectionId = triggerClasses.length ? this.getNewDetectionId() : undefined;
 
         if (detectionId) {
             this.lastDetectionId = now;
+            for (const className of triggerClasses) {
+                this.lastClassDetectionIds[className] = now;
+            }
         }
 
-        this.lastActiveIds = currentActiveIds;
-        this.lastActiveClasses = activeClasses;
+        this.lastActiveTracks = new Map(active.filter(det => det.id).map(det => [det.id, det.className]));
+
+        const confirmedTracks = [...this.tracks.values()].filter(track => track.active).length;
+        this.statistics?.recordTrackerUpdate({
+            active: confirmedTracks,
+            pending: this.tracks.size - confirmedTracks,
+            lost: this.lostTracks.size,
+        }, detectionId);
 
         this.currentFrame++;
 
-        return { active, pending, detectionId };
+        return { active, pending, detectionId, zoneTransitions, lineCrossings };
     }
 
     distance(c1: Point, c2: Point) {
@@ -0,0 +1,104 @@
+import { ObjectDetectionGeneratorSession, ObjectsDetected } from "@scrypted/sdk";
+import fs from 'fs';
+import { ObjectTracker } from "./objectTracker";
+import { readRecording } from "./sessionRecorder";
+
+export interface ReplayFrame {
+    frame: number;
+    timestamp: number;
+    detectionId?: string;
+    active: string[];
+    pending: string[];
+}
+
+export const getReplayLogger = (debug = false) => ({
+    log: (message?: any, ...optionalParams: any[]) => console.log(message, ...optionalParams),
+    info: (message?: any, ...optionalParams: any[]) => debug && console.log(message, ...optionalParams),
+    debug: (message?: any, ...optionalParams: any[]) => debug && console.log(message, ...optionalParams),
+    error: (message?: any, ...optionalParams: any[]) => console.error(message, ...optionalParams),
+    warn: (message?: any, ...optionalParams: any[]) => console.warn(message, ...optionalParams),
+} as Console);
+
+/**
+ * Feeds recorded detector output through a fresh tracker, no detector or Scrypted server required.
+ */
+export const replayFrames = (props: {
+    frames: ObjectsDetected[],
+    session: ObjectDetectionGeneratorSession,
+    logger: Console,
+    onFrame?: (frame: ReplayFrame) => void,
+}) => {
+    const { frames, session, logger, onFrame } = props;
+    const objectTracker = new ObjectTracker({ logger, session });
+    const basicDetectionsOnly = JSON.parse(session.settings.basicDetectionsOnly || 'false');
+    const timeline: ReplayFrame[] = [];
+
+    frames.forEach((detected, frame) => {
+        // The tracker annotates the detections, keep the recording untouched
+        const { active, pending, detectionId } = objectTracker.update(structuredClone(detected), basicDetectionsOnly);
+
+        const replayFrame: ReplayFrame = {
+            frame,
+            timestamp: detected.timestamp,
+            detectionId,
+            active: active.filter(det => det.className !== 'motion').map(det => `${det.className}:${det.id ?? '-'}`),
+            pending: pending.map(det => `${det.className}:${det.id}`),
+        };
+
+        timeline.push(replayFrame);
+        onFrame?.(replayFrame);
+    });
+
+    return timeline;
+}
+
+const parseOverrides = (value?: string) => {
+    if (!value) {
+        return {};
+    }
+
+    return JSON.parse(fs.existsSync(value) ? fs.readFileSync(value, 'utf-8') : value);
+}
+
+// Prints only the frames where a detection id is emitted or the tracks change
+const getTimelinePrinter = () => {
+    let lastState: string;
+
+    return ({ frame, timestamp, detectionId, active, pending }: ReplayFrame) => {
+        const state = `active [${active.join(', ')}] pending [${pending.join(', ')}]`;
+
+        if (detectionId || state !== lastState) {
+            const time = timestamp ? new Date(timestamp).toISOString() : '-';
+            console.log(`${time} frame ${frame}${detectionId ? ` detectionId ${detectionId}` : ''} ${state}`);
+        }
+
+        lastState = state;
+    };
+}
+
+// Usage: replay <recording.jsonl> [settings overrides, JSON string or file] [--debug]
+if (require.main === module) {
+    const args = process.argv.slice(2);
+    const debug = args.includes('--debug');
+    const [filePath, overrides] = args.filter(arg => arg !== '--debug');
+
+    if (!filePath) {
+        console.error('Usage: replay <recording.jsonl> [settings overrides] [--debug]');
+        process.exit(1);
+    }
+
+    const { header, frames } = readRecording(filePath);
+    const settings = {
+        ...header.settings,
+        ...parseOverrides(overrides),
+    };
+
+    console.log(`Replaying ${frames.length} frames of ${header.sourceId}, settings ${JSON.stringify(settings)}`);
+
+    replayFrames({
+        frames,
+        session: { sourceId: header.sourceId, settings },
+        logger: getReplayLogger(debug),
+        onFrame: getTimelinePrinter(),
+    });
+}
@@ -0,0 +1,158 @@
+import { PrefilterDropReason } from "./util";
+
+export interface LatencyPercentiles {
+    p50: number;
+    p90: number;
+    p99: number;
+    samples: number;
+}
+
+export interface TrackCounts {
+    active: number;
+    pending: number;
+    lost: number;
+}
+
+export interface CameraStatisticsSnapshot {
+    inputFps: number;
+    frames: number;
+    detectorLatencyMs: LatencyPercentiles;
+    droppedDetections: Partial<Record<PrefilterDropReason, number>>;
+    tracks: TrackCounts;
+    detectionIds: number;
+    detectionIdsPerMinute: number;
+    lastFrame?: number;
+}
+
+// Input rate over the last seconds, latency percentiles over the last samples, detection ids over the last minute
+const fpsWindowMs = 10 * 1000;
+const maxLatencySamples = 200;
+const detectionIdWindowMs = 60 * 1000;
+
+const getPercentile = (sorted: number[], percentile: number) => {
+    if (!sorted.length) {
+        return 0;
+    }
+
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(percentile / 100 * sorted.length) - 1));
+
+    return Math.round(sorted[index]);
+}
+
+const trimWindow = (timestamps: number[], windowMs: number, now: number) => {
+    while (timestamps.length && now - timestamps[0] > windowMs) {
+        timestamps.shift();
+    }
+}
+
+/**
+ * Runtime figures of a camera, fed by its detection sessions and its tracker.
+ */
+export class CameraStatistics {
+    private frameTimes: number[] = [];
+    private latencies: number[] = [];
+    private detectionIdTimes: number[] = [];
+    frames = 0;
+    detectionIds = 0;
+    droppedDetections: Partial<Record<PrefilterDropReason, number>> = {};
+    tracks: TrackCounts = { active: 0, pending: 0, lost: 0 };
+    lastFrame: number;
+
+    recordFrame(now = Date.now()) {
+        this.frames++;
+        this.lastFrame = now;
+        this.frameTimes.push(now);
+        trimWindow(this.frameTimes, fpsWindowMs, now);
+    }
+
+    recordLatency(latencyMs: number) {
+        this.latencies.push(latencyMs);
+
+        if (this.latencies.length > maxLatencySamples) {
+            this.latencies.shift();
+        }
+    }
+
+    recordDropped(reason: PrefilterDropReason, count: number) {
+        this.droppedDetections[reason] = (this.droppedDetections[reason] ?? 0) + count;
+    }
+
+    recordTrackerUpdate(tracks: TrackCounts, detectionId: string, now = Date.now()) {
+        this.tracks = tracks;
+
+        if (detectionId) {
+            this.detectionIds++;
+            this.detectionIdTimes.push(now);
+        }
+        trimWindow(this.detectionIdTimes, detectionIdWindowMs, now);
+    }
+
+    reset() {
+        this.frameTimes = [];
+        this.latencies = [];
+        this.detectionIdTimes = [];
+        this.frames = 0;
+        this.detectionIds = 0;
+        this.droppedDetections = {};
+    }
+
+    getSnapshot(now = Date.now()): CameraStatisticsSnapshot {
+        trimWindow(this.frameTimes, fpsWindowMs, now);
+        trimWindow(this.detectionIdTimes, detectionIdWindowMs, now);
+
+        // A camera without frames in the window has no rate, a single one does not make a rate either
+        const elapsedMs = this.frameTimes.length > 1 ? now - this.frameTimes[0] : 0;
+        const sortedLatencies = [...this.latencies].sort((a, b) => a - b);
+
+        return {
+            inputFps: elapsedMs ? Math.round((this.frameTimes.length - 1) / elapsedMs * 1000 * 10) / 10 : 0,
+            frames: this.frames,
+            detectorLatencyMs: {
+                p50: getPercentile(sortedLatencies, 50),
+                p90: getPercentile(sortedLatencies, 90),
+                p99: getPercentile(sortedLatencies, 99),
+                samples: sortedLatencies.length,
+            },
+            droppedDetections: { ...this.droppedDetections },
+            tracks: { ...this.tracks },
+            detectionIds: this.detectionIds,
+            detectionIdsPerMinute: this.detectionIdTimes.length,
+            lastFrame: this.lastFrame,
+        };
+    }
+}
+
+/**
+ * Per camera registry of the runtime statistics, kept for the lifetime of the plugin.
+ */
+export class RuntimeStatistics {
+    private cameras = new Map<string, CameraStatistics>();
+
+    getCamera(sourceId: string) {
+        let camera = this.cameras.get(sourceId);
+
+        if (!camera) {
+            camera = new CameraStatistics();
+            this.cameras.set(sourceId, camera);
+        }
+
+        return camera;
+    }
+
+    getSnapshot(now = Date.now()) {
+        const snapshot: Record<string, CameraStatisticsSnapshot> = {};
+
+        for (const [sourceId, camera] of this.cameras) {
+            snapshot[sourceId] = camera.getSnapshot(now);
+        }
+
+        return snapshot;
+    }
+
+    // Running sessions keep their camera statistics, so the figures are cleared in place
+    reset() {
+        for (const camera of this.cameras.values()) {
+            camera.reset();
+        }
+    }
+}
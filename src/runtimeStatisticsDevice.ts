@@ -0,0 +1,87 @@
+import sdk, { ScryptedDeviceBase, Setting, Settings, SettingValue } from "@scrypted/sdk";
+import { StorageSettings } from "@scrypted/sdk/storage-settings";
+import ObjectDetectionPlugin from "./main";
+
+export default class RuntimeStatisticsDevice extends ScryptedDeviceBase implements Settings {
+    storageSettings = new StorageSettings(this, {
+        resetStatistics: {
+            title: 'Reset statistics',
+            description: 'Clear the figures collected since the plugin start',
+            type: 'button',
+            onPut: () => this.plugin.runtimeStatistics.reset(),
+        },
+    });
+    plugin: ObjectDetectionPlugin;
+
+    constructor(nativeId: string, plugin: ObjectDetectionPlugin) {
+        super(nativeId);
+        this.plugin = plugin;
+    }
+
+    async getSettings(): Promise<Setting[]> {
+        const settings = await this.storageSettings.getSettings();
+
+        try {
+            settings.push({
+                key: 'statisticsEndpoint',
+                title: 'JSON endpoint',
+                description: 'Authenticated path serving these figures as JSON',
+                readonly: true,
+                value: await sdk.endpointManager.getAuthenticatedPath(this.plugin.nativeId),
+            });
+        } catch (e) {
+            this.console.log('Error getting the statistics endpoint', e);
+        }
+
+        for (const [sourceId, stats] of Object.entries(this.plugin.runtimeStatistics.getSnapshot())) {
+            const subgroup = sdk.systemManager.getDeviceById(sourceId)?.name ?? sourceId;
+            const { inputFps, frames, detectorLatencyMs, droppedDetections, tracks, detectionIds, detectionIdsPerMinute } = stats;
+            const { p50, p90, p99, samples } = detectorLatencyMs;
+            const dropped = Object.entries(droppedDetections).map(([reason, count]) => `${reason} ${count}`).join(', ');
+
+            settings.push(
+                {
+                    key: `${sourceId}:inputFps`,
+                    title: 'Input fps',
+                    subgroup,
+                    readonly: true,
+                    value: `${inputFps} fps, ${frames} frames`,
+                },
+                {
+                    key: `${sourceId}:detectorLatency`,
+                    title: 'Detector latency',
+                    subgroup,
+                    readonly: true,
+                    value: samples ? `p50 ${p50} ms / p90 ${p90} ms / p99 ${p99} ms over ${samples} detections` : 'No detections',
+                },
+                {
+                    key: `${sourceId}:droppedDetections`,
+                    title: 'Prefilter drops',
+                    subgroup,
+                    readonly: true,
+                    value: dropped || 'None',
+                },
+                {
+                    key: `${sourceId}:tracks`,
+                    title: 'Tracks',
+                    subgroup,
+                    readonly: true,
+                    value: `Active ${tracks.active}, pending ${tracks.pending}, lost ${tracks.lost}`,
+                },
+                {
+                    key: `${sourceId}:detectionIds`,
+                    title: 'Detection ids',
+                    subgroup,
+                    readonly: true,
+                    value: `${detectionIdsPerMinute} in the last minute, ${detectionIds} total`,
+                },
+            );
+        }
+
+        return settings;
+    }
+
+    async putSetting(key: string, value: SettingValue): Promise<void> {
+        return this.storageSettings.putSetting(key, value);
+    }
+}
@@ -0,0 +1,226 @@
+import { MediaObject, ObjectDetectionGeneratorResult, ObjectDetectionGeneratorSession, VideoFrame } from "@scrypted/sdk";
+import { isEqual } from "lodash";
+import { getFrameFeed, isAsyncGenerator } from "./detectorFailover";
+
+type VideoFrames = AsyncGenerator<VideoFrame, void> | MediaObject;
+
+// Results waiting for a slow consumer, the oldest ones are dropped
+const maxQueuedResults = 10;
+
+class SessionConsumer {
+    private queue: ObjectDetectionGeneratorResult[] = [];
+    private waiting: (result: ObjectDetectionGeneratorResult) => void;
+    private ended = false;
+
+    constructor(public videoFrames: VideoFrames) { }
+
+    push(result: ObjectDetectionGeneratorResult) {
+        const waiting = this.waiting;
+        this.waiting = undefined;
+
+        if (waiting) {
+            waiting(result);
+            return;
+        }
+
+        this.queue.push(result);
+        if (this.queue.length > maxQueuedResults) {
+            this.queue.shift();
+        }
+    }
+
+    end() {
+        this.ended = true;
+        this.waiting?.(undefined);
+        this.waiting = undefined;
+    }
+
+    async next() {
+        return this.queue.shift() ?? (this.ended ? undefined : await new Promise<ObjectDetectionGeneratorResult>(resolve => this.waiting = resolve));
+    }
+}
+
+/**
+ * One inference stream and one tracker shared by all the consumers of a camera with the same settings.
+ * The frames of the oldest consumer feed the stream, when they end or that consumer leaves
+ * the next one takes over, keeping the tracker and so the track ids.
+ * A restart replaces a stalled stream on the same frames, without waiting for it to settle.
+ * The frames of a consumer are closed when it leaves or when they stop feeding the stream.
+ */
+export class SharedDetectionSession {
+    private consumers: SessionConsumer[] = [];
+    private owner: SessionConsumer;
+    private pipeline: AsyncGenerator<ObjectDetectionGeneratorResult, void>;
+    private running = false;
+    private abandonPipeline: () => void;
+    private resolveClosed: () => void;
+    isClosed = false;
+    closed = new Promise<void>(resolve => this.resolveClosed = resolve);
+
+    constructor(private props: {
+        session: ObjectDetectionGeneratorSession,
+        logger: Console,
+        createPipeline: (videoFrames: VideoFrames) => AsyncGenerator<ObjectDetectionGeneratorResult, void>,
+        onResult?: () => void,
+        onError?: (error: any) => void,
+    }) { }
+
+    get sourceId() {
+        return this.props.session.sourceId;
+    }
+
+    get settings() {
+        return this.props.session.settings;
+    }
+
+    get consumerCount() {
+        return this.consumers.length;
+    }
+
+    subscribe(videoFrames: VideoFrames): AsyncGenerator<ObjectDetectionGeneratorResult, void> {
+        const consumer = new SessionConsumer(videoFrames);
+        this.consumers.push(consumer);
+
+        if (this.consumers.length > 1) {
+            this.props.logger.log(`Consumer joined the shared session, ${this.consumers.length} consumers`);
+        }
+
+        if (!this.running) {
+            this.running = true;
+            this.pump();
+        }
+
+        const shared = this;
+        return (async function* () {
+            try {
+                while (true) {
+                    const result = await consumer.next();
+                    if (!result) return;
+                    yield result;
+                }
+            } finally {
+                shared.remove(consumer);
+            }
+        })();
+    }
+
+    private remove(consumer: SessionConsumer) {
+        const index = this.consumers.indexOf(consumer);
+        if (index === -1) {
+            return;
+        }
+
+        this.consumers.splice(index, 1);
+        consumer.end();
+
+        if (this.consumers.length) {
+            this.props.logger.log(`Consumer left the shared session, ${this.consumers.length} consumers`);
+        }
+
+        // The stream runs on the frames of this consumer, stop it so the next one takes over
+        if (consumer === this.owner) {
+            this.abandonPipeline?.();
+        }
+
+        // Leaving closes the frames of the consumer, whether they fed the stream or not
+        if (isAsyncGenerator(consumer.videoFrames)) {
+            consumer.videoFrames.return(undefined).catch(() => { });
+        }
+    }
+
+    restartPipeline() {
+        if (!this.abandonPipeline) {
+            return;
+        }
+
+        this.props.logger.warn('Restarting the shared detection session');
+        this.abandonPipeline();
+    }
+
+    private async pump() {
+        while (this.consumers.length) {
+            const owner = this.owner = this.consumers[0];
+            // The pipeline gets its own view of the frames, so a restart does not close the owner stream
+            const videoFrames = isAsyncGenerator(owner.videoFrames) ? getFrameFeed(owner.videoFrames) : owner.videoFrames;
+            const pipeline = this.pipeline = this.props.createPipeline(videoFrames);
+            const abandoned = new Promise<undefined>(resolve => this.abandonPipeline = () => resolve(undefined));
+            let ended = false;
+
+            try {
+                while (true) {
+                    // A hung pipeline never settles, racing it lets the session move on
+                    const next = await Promise.race([pipeline.next(), abandoned]);
+
+                    if (!next) {
+                        break;
+                    }
+
+                    if (next.done) {
+                        ended = true;
+                        break;
+                    }
+
+                    this.props.onResult?.();
+                    for (const consumer of this.consumers) {
+                        consumer.push(next.value as ObjectDetectionGeneratorResult);
+                    }
+                }
+            } catch (e) {
+                ended = true;
+                this.props.onError?.(e);
+                this.props.logger.error('Shared detection session error', e);
+            }
+
+            this.abandonPipeline = undefined;
+            pipeline.return(undefined).catch(() => { });
+
+            // The frames of the owner are over, its consumer ends with them
+            if (ended) {
+                this.remove(owner);
+            }
+        }
+
+        this.owner = undefined;
+        this.pipeline = undefined;
+        this.isClosed = true;
+        this.resolveClosed();
+    }
+}
+
+/**
+ * Per camera registry of the shared detection sessions.
+ */
+export class SessionRegistry {
+    private cameraSessions = new Map<string, SharedDetectionSession[]>();
+
+    getOrCreate(session: ObjectDetectionGeneratorSession, create: () => SharedDetectionSession) {
+        const sessions = this.cameraSessions.get(session.sourceId) ?? [];
+        let shared = sessions.find(shared => !shared.isClosed && isEqual(shared.settings, session.settings));
+
+        if (!shared) {
+            shared = create();
+            sessions.push(shared);
+            this.cameraSessions.set(session.sourceId, sessions);
+
+            shared.closed.then(() => {
+                const remaining = (this.cameraSessions.get(session.sourceId) ?? []).filter(other => other !== shared);
+
+                if (remaining.length) {
+                    this.cameraSessions.set(session.sourceId, remaining);
+                } else {
+                    this.cameraSessions.delete(session.sourceId);
+                }
+            });
+        }
+
+        return shared;
+    }
+
+    getCameraSessions(sourceId: string) {
+        return this.cameraSessions.get(sourceId) ?? [];
+    }
+
+    get cameraIds() {
+        return [...this.cameraSessions.keys()];
+    }
+}
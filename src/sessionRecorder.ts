@@ -0,0 +1,72 @@
+import { ObjectDetectionGeneratorSession, ObjectsDetected } from "@scrypted/sdk";
+import fs from 'fs';
+import path from 'path';
+
+export interface RecordedSessionHeader {
+    type: 'session';
+    sourceId: string;
+    sessionId: string;
+    startedAt: number;
+    settings: ObjectDetectionGeneratorSession['settings'];
+}
+
+export interface RecordedDetections {
+    type: 'detections';
+    detected: ObjectsDetected;
+}
+
+export type RecordedEntry = RecordedSessionHeader | RecordedDetections;
+
+export const getRecordingsFolder = () => path.join(process.env.SCRYPTED_PLUGIN_VOLUME ?? process.cwd(), 'recordings');
+
+/**
+ * Writes the raw detector output of a session to a JSONL file, the first line holds the session settings.
+ */
+export class SessionRecorder {
+    filePath: string;
+    private stream: fs.WriteStream;
+
+    constructor(props: {
+        sourceId: string,
+        sessionId: string,
+        settings: ObjectDetectionGeneratorSession['settings'],
+    }) {
+        const { sourceId, sessionId, settings } = props;
+        const startedAt = Date.now();
+        const folder = getRecordingsFolder();
+
+        fs.mkdirSync(folder, { recursive: true });
+        this.filePath = path.join(folder, `${sourceId}-${sessionId}-${startedAt}.jsonl`);
+        this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+
+        this.write({ type: 'session', sourceId, sessionId, startedAt, settings });
+    }
+
+    private write(entry: RecordedEntry) {
+        this.stream.write(`${JSON.stringify(entry)}\n`);
+    }
+
+    record(detected: ObjectsDetected) {
+        this.write({ type: 'detections', detected });
+    }
+
+    close() {
+        this.stream.end();
+    }
+}
+
+export const readRecording = (filePath: string) => {
+    const lines = fs.readFileSync(filePath, 'utf-8').split('\n').filter(line => !!line.trim());
+    const entries: RecordedEntry[] = lines.map(line => JSON.parse(line));
+
+    const header = entries.find(entry => entry.type === 'session') as RecordedSessionHeader;
+    const frames = entries
+        .filter((entry): entry is RecordedDetections => entry.type === 'detections')
+        .map(entry => entry.detected);
+
+    if (!header) {
+        throw new Error(`${filePath} is not a session recording`);
+    }
+
+    return { header, frames };
+}
@@ -0,0 +1,129 @@
+export interface SupervisedTaskStatus {
+    id: string;
+    name: string;
+    lastActivity: number;
+    restarts: number;
+    restarting: boolean;
+    lastRestart?: number;
+    nextRestartAt?: number;
+    lastError?: string;
+}
+
+interface SupervisedTask extends SupervisedTaskStatus {
+    stallSeconds: () => number;
+    restart: () => Promise<void> | void;
+    backoffMs: number;
+}
+
+export interface SupervisorHandle {
+    heartbeat: () => void;
+    error: (error: any) => void;
+    unregister: () => void;
+}
+
+const checkIntervalMs = 5 * 1000;
+const initialBackoffMs = 5 * 1000;
+const maxBackoffMs = 5 * 60 * 1000;
+
+/**
+ * Watches long running tasks through their heartbeats, a task silent for longer than its stall timeout
+ * is restarted on its own, with an exponential backoff between consecutive restarts.
+ */
+export class Supervisor {
+    private tasks = new Map<string, SupervisedTask>();
+    private interval: NodeJS.Timeout;
+
+    constructor(private logger: Console) { }
+
+    start() {
+        this.interval ||= setInterval(() => this.check(), checkIntervalMs);
+    }
+
+    stop() {
+        clearInterval(this.interval);
+        this.interval = undefined;
+    }
+
+    register(props: {
+        id: string,
+        name: string,
+        stallSeconds: () => number,
+        restart: () => Promise<void> | void,
+    }): SupervisorHandle {
+        const { id, name, stallSeconds, restart } = props;
+        const task: SupervisedTask = {
+            id,
+            name,
+            stallSeconds,
+            restart,
+            lastActivity: Date.now(),
+            restarts: 0,
+            restarting: false,
+            backoffMs: 0,
+        };
+        this.tasks.set(id, task);
+
+        return {
+            heartbeat: () => {
+                task.lastActivity = Date.now();
+                task.backoffMs = 0;
+                task.nextRestartAt = undefined;
+            },
+            error: (error: any) => task.lastError = error?.message ?? String(error),
+            unregister: () => {
+                if (this.tasks.get(id) === task) {
+                    this.tasks.delete(id);
+                }
+            },
+        };
+    }
+
+    private async restartTask(task: SupervisedTask, now: number) {
+        task.restarting = true;
+        task.restarts++;
+        task.lastRestart = now;
+        task.backoffMs = Math.min(maxBackoffMs, Math.max(initialBackoffMs, task.backoffMs * 2));
+        task.nextRestartAt = now + task.backoffMs;
+
+        this.logger.warn(`${task.name} stalled for ${Math.round((now - task.lastActivity) / 1000)} seconds, restarting (${task.restarts} restarts)`);
+
+        try {
+            await task.restart();
+        } catch (e) {
+            task.lastError = e?.message ?? String(e);
+            this.logger.error(`Error restarting ${task.name}`, e);
+        } finally {
+            task.restarting = false;
+        }
+    }
+
+    private check() {
+        const now = Date.now();
+
+        for (const task of this.tasks.values()) {
+            const stallSeconds = task.stallSeconds();
+            if (!stallSeconds || task.restarting) continue;
+
+            // A restarted task gets a full stall window before being checked again
+            const stalled = now - Math.max(task.lastActivity, task.lastRestart ?? 0) >= stallSeconds * 1000;
+            const backoffElapsed = !task.nextRestartAt || now >= task.nextRestartAt;
+
+            if (stalled && backoffElapsed) {
+                this.restartTask(task, now);
+            }
+        }
+    }
+
+    getStatus(): SupervisedTaskStatus[] {
+        return [...this.tasks.values()].map(({ id, name, lastActivity, restarts, restarting, lastRestart, nextRestartAt, lastError }) => ({
+            id,
+            name,
+            lastActivity,
+            restarts,
+            restarting,
+            lastRestart,
+            nextRestartAt,
+            lastError,
+        }));
+    }
+}
@@ -0,0 +1,116 @@
+import { Image, MediaObject, ObjectDetection, ObjectDetectionResult, ObjectDetectionSession } from "@scrypted/sdk";
+import { BoundingBox, calculateIntersectionOverSmaller } from "./util";
+
+export interface ImageTile {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+export const tileGrids = ['2x1', '2x2', '3x2', '3x3', '4x3'];
+// A box cut at a tile border is mostly inside the whole one, while their IoU stays low
+const tileMergeThreshold = 0.6;
+
+export const parseTileGrid = (grid: string): [number, number] => {
+    const [columns, rows] = (grid ?? '').split('x').map(Number);
+
+    if (!columns || !rows) {
+        return [2, 2];
+    }
+
+    return [columns, rows];
+}
+
+/**
+ * Splits the image in a grid of tiles, each one extended by the overlap fraction towards its neighbours.
+ */
+export const getTiles = (width: number, height: number, columns: number, rows: number, overlap: number): ImageTile[] => {
+    const tileWidth = width / columns;
+    const tileHeight = height / rows;
+    const overlapX = tileWidth * overlap;
+    const overlapY = tileHeight * overlap;
+    const tiles: ImageTile[] = [];
+
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            const left = Math.max(0, Math.floor(column * tileWidth - overlapX));
+            const top = Math.max(0, Math.floor(row * tileHeight - overlapY));
+            const right = Math.min(width, Math.ceil((column + 1) * tileWidth + overlapX));
+            const bottom = Math.min(height, Math.ceil((row + 1) * tileHeight + overlapY));
+
+            tiles.push({ left, top, width: right - left, height: bottom - top });
+        }
+    }
+
+    return tiles;
+}
+
+/**
+ * Runs the detector on every tile and maps the boxes back to the input dimensions of the full frame pass.
+ */
+export const detectTiles = async (props: {
+    image: Image,
+    detector: ObjectDetection,
+    session: ObjectDetectionSession,
+    inputDimensions: [number, number],
+    columns: number,
+    rows: number,
+    overlap: number,
+    logger: Console,
+}) => {
+    const { image, detector, session, inputDimensions, columns, rows, overlap, logger } = props;
+    const frameScaleX = inputDimensions[0] / image.width;
+    const frameScaleY = inputDimensions[1] / image.height;
+    const tiles = getTiles(image.width, image.height, columns, rows, overlap);
+
+    const tileDetections = await Promise.all(tiles.map(async (tile): Promise<ObjectDetectionResult[]> => {
+        let tileImage: Image & MediaObject;
+
+        try {
+            tileImage = await image.toImage({ crop: tile });
+            const detected = await detector.detectObjects(tileImage, session);
+            const [tileInputWidth, tileInputHeight] = detected.inputDimensions ?? [tile.width, tile.height];
+            const tileScaleX = tile.width / tileInputWidth;
+            const tileScaleY = tile.height / tileInputHeight;
+
+            return (detected.detections ?? []).map(det => {
+                const [x, y, w, h] = det.boundingBox;
+                const boundingBox: BoundingBox = [
+                    (tile.left + x * tileScaleX) * frameScaleX,
+                    (tile.top + y * tileScaleY) * frameScaleY,
+                    w * tileScaleX * frameScaleX,
+                    h * tileScaleY * frameScaleY,
+                ];
+
+                return { ...det, boundingBox };
+            });
+        } catch (e) {
+            logger.debug(`Error detecting tile ${JSON.stringify(tile)}`, e);
+            return [];
+        } finally {
+            tileImage?.close().catch(() => { });
+        }
+    }));
+
+    return tileDetections.flat();
+}
+
+/**
+ * Adds the tile detections to the full frame ones, dropping the tile boxes mostly covered
+ * by a box of the same class already kept, full frame boxes first.
+ */
+export const mergeTileDetections = (frameDetections: ObjectDetectionResult[], tileDetections: ObjectDetectionResult[]) => {
+    const merged = [...frameDetections];
+
+    for (const det of [...tileDetections].sort((a, b) => b.score - a.score)) {
+        const duplicate = merged.some(kept => kept.className === det.className &&
+            calculateIntersectionOverSmaller(kept.boundingBox, det.boundingBox) >= tileMergeThreshold);
+
+        if (!duplicate) {
+            merged.push(det);
+        }
+    }
+
+    return merged;
+}
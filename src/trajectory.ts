@@ -0,0 +1,90 @@
+import { ObjectDetectionHistory, ObjectDetectionResult, Point } from "@scrypted/sdk";
+import { BoundingBox } from "./util";
+
+export const maxTrajectorySamples = 20;
+export const headingWindowMs = 2000;
+
+export type CompassDirection = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+const compassDirections: CompassDirection[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export interface TrajectorySample {
+    timestamp: number;
+    centroid: Point;
+    boundingBox: BoundingBox;
+}
+
+export interface TrackMovement extends NonNullable<ObjectDetectionResult['movement']> {
+    /**
+     * Degrees in image space, 0 is the top of the frame and 90 the right side.
+     */
+    heading?: number;
+    direction?: CompassDirection;
+    /**
+     * Pixels per second in detector input coordinates.
+     */
+    speed?: number;
+}
+
+export interface TrackHistory extends ObjectDetectionHistory {
+    trajectory: TrajectorySample[];
+}
+
+export const addTrajectorySample = (trajectory: TrajectorySample[], sample: TrajectorySample) => {
+    trajectory.push(sample);
+
+    if (trajectory.length > maxTrajectorySamples) {
+        trajectory.splice(0, trajectory.length - maxTrajectorySamples);
+    }
+}
+
+export const getCompassDirection = (heading: number): CompassDirection => {
+    return compassDirections[Math.round(heading / 45) % compassDirections.length];
+}
+
+// Least squares velocity over the recent samples, smooths out the detector box jitter
+export const getTrajectoryMovement = (trajectory: TrajectorySample[]): Pick<TrackMovement, 'heading' | 'direction' | 'speed'> => {
+    const last = trajectory[trajectory.length - 1];
+    if (!last) {
+        return {};
+    }
+
+    const samples = trajectory.filter(sample => last.timestamp - sample.timestamp <= headingWindowMs);
+    if (samples.length < 2) {
+        return {};
+    }
+
+    const meanT = samples.reduce((acc, sample) => acc + sample.timestamp, 0) / samples.length;
+    const meanX = samples.reduce((acc, sample) => acc + sample.centroid[0], 0) / samples.length;
+    const meanY = samples.reduce((acc, sample) => acc + sample.centroid[1], 0) / samples.length;
+
+    let varianceT = 0;
+    let covarianceX = 0;
+    let covarianceY = 0;
+    for (const sample of samples) {
+        const dt = sample.timestamp - meanT;
+        varianceT += dt * dt;
+        covarianceX += dt * (sample.centroid[0] - meanX);
+        covarianceY += dt * (sample.centroid[1] - meanY);
+    }
+
+    if (!varianceT) {
+        return {};
+    }
+
+    // Pixels per millisecond
+    const vx = covarianceX / varianceT;
+    const vy = covarianceY / varianceT;
+    const speed = Math.hypot(vx, vy) * 1000;
+
+    if (!speed) {
+        return { speed };
+    }
+
+    const heading = (Math.atan2(vx, -vy) * 180 / Math.PI + 360) % 360;
+
+    return {
+        heading,
+        direction: getCompassDirection(heading),
+        speed,
+    };
+}
@@ -1,5 +1,7 @@
-import { ObjectDetectionGeneratorSession, ObjectDetectionResult } from '@scrypted/sdk';
+import { ObjectDetectionGeneratorSession, ObjectDetectionResult, Point } from '@scrypted/sdk';
 export const audioDetectorNativeId = 'basicAudioDetector';
+export const lineCounterNativeId = 'basicLineCounter';
+export const runtimeStatisticsNativeId = 'basicRuntimeStatistics';
 
 export const logMean = (samples: number[]) => {
     const sum = samples.reduce((a, b) => a + Math.pow(10, b / 10), 0);
@@ -66,12 +68,84 @@ export const calculateIoU = (box1: BoundingBox, box2: BoundingBox) => {
     return intersectionArea / unionArea;
 }
 
+// Intersection over the area of the smaller box, 1 when a box lies inside the other whatever their sizes
+export const calculateIntersectionOverSmaller = (box1: BoundingBox, box2: BoundingBox) => {
+    const x1 = Math.max(box1[0], box2[0]);
+    const y1 = Math.max(box1[1], box2[1]);
+    const x2 = Math.min(box1[0] + box1[2], box2[0] + box2[2]);
+    const y2 = Math.min(box1[1] + box1[3], box2[1] + box2[3]);
+
+    const intersectionArea = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+    const smallerArea = Math.min(box1[2] * box1[3], box2[2] * box2[3]);
+
+    return smallerArea ? intersectionArea / smallerArea : 0;
+}
+
+/**
+ * Alias entries in the form "truck=vehicle", the detector class on the left is renamed to the one on the right.
+ */
+export const getClassAliases = (settings: ObjectDetectionGeneratorSession['settings']): Record<string, string> => {
+    const { classAliasesSetting } = getMainSettings();
+    const entries: string[] = settings?.[classAliasesSetting] ?? [];
+    const aliases: Record<string, string> = {};
+
+    for (const entry of entries) {
+        const [className, alias] = entry.split('=').map(part => part.trim());
+
+        if (className && alias && className !== alias) {
+            aliases[className] = alias;
+        }
+    }
+
+    return aliases;
+}
+
+/**
+ * Confusable entries list classes the detector mixes up on the same object, i.e. "car,truck,bus".
+ */
+export const getConfusableGroups = (settings: ObjectDetectionGeneratorSession['settings']): string[][] => {
+    const { confusableClassesSetting } = getMainSettings();
+    const entries: string[] = settings?.[confusableClassesSetting] ?? [];
+
+    return entries
+        .map(entry => entry.split(',').map(className => className.trim()).filter(Boolean))
+        .filter(group => group.length > 1);
+}
+
+export const areClassesConfusable = (className1: string, className2: string, confusableGroups: string[][]) => {
+    if (className1 === className2) {
+        return true;
+    }
+
+    return confusableGroups.some(group => group.includes(className1) && group.includes(className2));
+}
+
+// Detections are renamed in place, the tracker relies on their identity across the prefilter calls of a frame
+export const applyClassAliases = (
+    detections: ObjectDetectionResult[],
+    settings: ObjectDetectionGeneratorSession['settings'],
+) => {
+    const aliases = getClassAliases(settings);
+
+    for (const det of detections ?? []) {
+        const alias = aliases[det.className];
+
+        if (alias) {
+            det.className = alias;
+        }
+    }
+
+    return detections;
+}
+
 export const filterOverlappedDetections = (
     detections: ObjectDetectionResult[],
     settings?: ObjectDetectionGeneratorSession['settings']
 ) => {
     if (!detections || detections.length === 0) return [];
 
+    const confusableGroups = getConfusableGroups(settings);
+
     const sortedDetections = [...detections].sort((a, b) => b.score - a.score);
     const selectedDetections: ObjectDetectionResult[] = [];
 
@@ -80,7 +154,7 @@ export const filterOverlappedDetections = (
         selectedDetections.push(currentDetection);
 
         const remaining = sortedDetections.filter(detection => {
-            if (detection.className !== currentDetection.className) return true;
+            if (!areClassesConfusable(detection.className, currentDetection.className, confusableGroups)) return true;
 
             let iouThreshold = 0.5;
             if (settings) {
@@ -149,19 +223,285 @@ export const filterLargeDetections = (
     });
 }
 
+/**
+ * Rejects boxes outside the per-class area range (fraction of the frame), aspect ratio range (width / height)
+ * or closer to the image border than the edge margin (fraction of the frame side).
+ */
+export const filterByGeometry = (
+    detections: ObjectDetectionResult[],
+    inputDimensions: [number, number],
+    settings: ObjectDetectionGeneratorSession['settings'],
+) => {
+    if (!settings) {
+        return detections;
+    }
+
+    const [inputWidth, inputHeight] = inputDimensions;
+    const imageArea = inputWidth * inputHeight;
+
+    return detections.filter(det => {
+        const {
+            minAreaSetting,
+            maxAreaSetting,
+            minAspectRatioSetting,
+            maxAspectRatioSetting,
+            edgeMarginSetting,
+        } = getClassnameSettings(det.className);
+        const minArea = Number(settings[minAreaSetting] ?? 0);
+        const maxArea = Number(settings[maxAreaSetting] ?? 0);
+        const minAspectRatio = Number(settings[minAspectRatioSetting] ?? 0);
+        const maxAspectRatio = Number(settings[maxAspectRatioSetting] ?? 0);
+        const edgeMargin = Number(settings[edgeMarginSetting] ?? 0);
+
+        const [x, y, w, h] = det.boundingBox;
+        const areaRatio = (w * h) / imageArea;
+
+        if (minArea && areaRatio < minArea) {
+            return false;
+        }
+
+        if (maxArea && areaRatio > maxArea) {
+            return false;
+        }
+
+        const aspectRatio = h ? w / h : Infinity;
+
+        if (minAspectRatio && aspectRatio < minAspectRatio) {
+            return false;
+        }
+
+        if (maxAspectRatio && aspectRatio > maxAspectRatio) {
+            return false;
+        }
+
+        if (edgeMargin) {
+            const marginX = edgeMargin * inputWidth;
+            const marginY = edgeMargin * inputHeight;
+
+            if (x < marginX || y < marginY || x + w > inputWidth - marginX || y + h > inputHeight - marginY) {
+                return false;
+            }
+        }
+
+        return true;
+    });
+}
+
+const filterByShape = (
+    detections: ObjectDetectionResult[],
+    inputDimensions: [number, number],
+    settings: ObjectDetectionGeneratorSession['settings'],
+) => {
+    const { largeDetectionRatioSetting } = getMainSettings();
+    const largeDetectionRatio = Number(settings?.[largeDetectionRatioSetting] || 0.95);
+
+    return filterByGeometry(filterLargeDetections(detections, inputDimensions, largeDetectionRatio), inputDimensions, settings);
+}
+
+export enum ZoneType {
+    Inclusive = 'Inclusive',
+    Exclusive = 'Exclusive',
+}
+
+export interface DetectionZone {
+    name: string;
+    type: ZoneType;
+    /**
+     * Polygon points, normalized to the detection input dimensions.
+     */
+    path: Point[];
+}
+
+export const parseZonePath = (value: any): Point[] => {
+    try {
+        const path = typeof value === 'string' ? JSON.parse(value) : value;
+
+        if (!Array.isArray(path)) {
+            return [];
+        }
+
+        return path.filter(point => Array.isArray(point) && point.length === 2 && point.every(coord => typeof coord === 'number'));
+    } catch {
+        return [];
+    }
+}
+
+export const getZones = (settings: ObjectDetectionGeneratorSession['settings']): DetectionZone[] => {
+    const { zonesSetting } = getMainSettings();
+    const zoneNames: string[] = settings?.[zonesSetting] ?? [];
+
+    return zoneNames.map(name => {
+        const { zonePathSetting, zoneTypeSetting } = getZoneSettings(name);
+
+        return {
+            name,
+            type: settings[zoneTypeSetting] === ZoneType.Exclusive ? ZoneType.Exclusive : ZoneType.Inclusive,
+            path: parseZonePath(settings[zonePathSetting]),
+        };
+    }).filter(zone => zone.path.length >= 3);
+}
+
+export const isPointInPolygon = (point: Point, polygon: Point[]) => {
+    const [x, y] = point;
+    let inside = false;
+
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, yi] = polygon[i];
+        const [xj, yj] = polygon[j];
+
+        const intersects = ((yi > y) !== (yj > y)) &&
+            (x < (xj - xi) * (y - yi) / (yj - yi) + xi);
+        if (intersects) {
+            inside = !inside;
+        }
+    }
+
+    return inside;
+}
+
+export const getNormalizedCentroid = (boundingBox: BoundingBox, inputDimensions: [number, number]): Point => {
+    const [x, y, w, h] = boundingBox;
+    const [inputWidth, inputHeight] = inputDimensions;
+
+    return [(x + w / 2) / inputWidth, (y + h / 2) / inputHeight];
+}
+
+export const getZonesForBox = (
+    boundingBox: BoundingBox,
+    inputDimensions: [number, number],
+    zones: DetectionZone[],
+) => {
+    if (!boundingBox || !inputDimensions) return [];
+
+    const centroid = getNormalizedCentroid(boundingBox, inputDimensions);
+
+    return zones.filter(zone => isPointInPolygon(centroid, zone.path));
+}
+
+export type LineDirection = 'in' | 'out';
+
+export interface DetectionLine {
+    name: string;
+    /**
+     * Segment points, normalized to the detection input dimensions.
+     */
+    start: Point;
+    end: Point;
+    invert: boolean;
+}
+
+export const getLines = (settings: ObjectDetectionGeneratorSession['settings']): DetectionLine[] => {
+    const { linesSetting } = getMainSettings();
+    const lineNames: string[] = settings?.[linesSetting] ?? [];
+
+    return lineNames.map(name => {
+        const { linePointsSetting, lineInvertSetting } = getLineSettings(name);
+        const [start, end] = parseZonePath(settings[linePointsSetting]);
+
+        return {
+            name,
+            start,
+            end,
+            invert: JSON.parse(settings[lineInvertSetting] || 'false'),
+        };
+    }).filter(line => line.start && line.end);
+}
+
+const getSideOfSegment = (point: Point, start: Point, end: Point) => {
+    return (end[0] - start[0]) * (point[1] - start[1]) - (end[1] - start[1]) * (point[0] - start[0]);
+}
+
+// "in" is a crossing from the right to the left side of the line, looking from its start to its end
+export const getLineCrossingDirection = (from: Point, to: Point, line: DetectionLine): LineDirection => {
+    const fromSide = getSideOfSegment(from, line.start, line.end);
+    const toSide = getSideOfSegment(to, line.start, line.end);
+
+    if (fromSide === 0 || Math.sign(fromSide) === Math.sign(toSide)) {
+        return undefined;
+    }
+
+    const startSide = getSideOfSegment(line.start, from, to);
+    const endSide = getSideOfSegment(line.end, from, to);
+
+    if (Math.sign(startSide) === Math.sign(endSide)) {
+        return undefined;
+    }
+
+    const isIn = fromSide > 0;
+
+    return isIn !== line.invert ? 'in' : 'out';
+}
+
+export const filterExclusionZones = (
+    detections: ObjectDetectionResult[],
+    inputDimensions: [number, number],
+    settings: ObjectDetectionGeneratorSession['settings'],
+) => {
+    const exclusionZones = getZones(settings).filter(zone => zone.type === ZoneType.Exclusive);
+
+    if (!exclusionZones.length) {
+        return detections;
+    }
+
+    return detections.filter(det => !getZonesForBox(det.boundingBox, inputDimensions, exclusionZones).length);
+}
+
+export type PrefilterDropReason = 'shape' | 'exclusionZone' | 'classOrScore' | 'overlap';
+
 export const prefilterDetections = (props: {
     detections: ObjectDetectionResult[],
     inputDimensions: [number, number],
     settings: ObjectDetectionGeneratorSession['settings'],
+    onDropped?: (reason: PrefilterDropReason, count: number) => void,
+}) => {
+    const { detections, inputDimensions, settings, onDropped } = props;
+
+    const countDropped = (reason: PrefilterDropReason, before: ObjectDetectionResult[], after: ObjectDetectionResult[]) => {
+        const dropped = (before?.length ?? 0) - (after?.length ?? 0);
+
+        if (dropped > 0) {
+            onDropped?.(reason, dropped);
+        }
+
+        return after;
+    }
+
+    const aliased = applyClassAliases(detections, settings);
+    const shaped = countDropped('shape', aliased, filterByShape(aliased, inputDimensions, settings));
+    const included = countDropped('exclusionZone', shaped, filterExclusionZones(shaped, inputDimensions, settings));
+    const enabled = countDropped('classOrScore', included, filterBySettings(included, settings));
+
+    return countDropped('overlap', enabled, filterOverlappedDetections(enabled, settings));
+}
+
+export const prefilterLowScoreDetections = (props: {
+    detections: ObjectDetectionResult[],
+    inputDimensions: [number, number],
+    settings: ObjectDetectionGeneratorSession['settings'],
 }) => {
     const { detections, inputDimensions, settings } = props;
 
-    return filterOverlappedDetections(
-        filterBySettings(
-            filterLargeDetections(detections, inputDimensions),
-            settings),
-        settings
-    );
+    if (!detections || detections.length === 0 || !settings) return [];
+
+    const enabledClasses = settings.enabledClasses;
+    const candidates = filterExclusionZones(filterByShape(applyClassAliases(detections, settings), inputDimensions, settings), inputDimensions, settings);
+    const lowScoreDetections = candidates.filter(det => {
+        if (!enabledClasses?.includes(det.className)) {
+            return false;
+        }
+
+        const { minScoreSetting, trackKeepScoreSetting } = getClassnameSettings(det.className);
+        const minScore = settings[minScoreSetting];
+        const trackKeepScore = settings[trackKeepScoreSetting];
+
+        if (!minScore || !trackKeepScore) {
+            return false;
+        }
+
+        return det.score >= trackKeepScore && det.score < minScore;
+    });
+
+    return filterOverlappedDetections(lowScoreDetections, settings);
 }
 
 export interface ClassParameters {
@@ -169,13 +509,85 @@ export interface ClassParameters {
     minConfirmationFrames: number;
     movementThreshold: number;
     iouThreshold: number;
+    trackKeepScore: number;
+    maxDwellSeconds: number;
+    dwellZone: string;
+    stationarySeconds: number;
+    minConfirmationSeconds: number;
+    maxUnseenSeconds: number;
+    maxLostSeconds: number;
+    detectionCooldownSeconds: number;
+    minArea: number;
+    maxArea: number;
+    minAspectRatio: number;
+    maxAspectRatio: number;
+    edgeMargin: number;
+    minTrackScore: number;
 }
 
 export const getMainSettings = () => {
     const basicDetectionsOnlySetting = `basicDetectionsOnly`;
+    const associationStrategySetting = `associationStrategy`;
+    const zonesSetting = `zones`;
+    const linesSetting = `lines`;
+    const appearanceReidSetting = `appearanceReid`;
+    const reidMinSimilaritySetting = `reidMinSimilarity`;
+    const reidMaxDistanceSetting = `reidMaxDistance`;
+    const recordSessionSetting = `recordSession`;
+    const detectionIdPolicySetting = `detectionIdPolicy`;
+    const detectionIdRefreshSecondsSetting = `detectionIdRefreshSeconds`;
+    const largeDetectionRatioSetting = `largeDetectionRatio`;
+    const classAliasesSetting = `classAliases`;
+    const confusableClassesSetting = `confusableClasses`;
+    const tiledInferenceSetting = `tiledInference`;
+    const tileGridSetting = `tileGrid`;
+    const tileOverlapSetting = `tileOverlap`;
+    const adaptiveFrameRateSetting = `adaptiveFrameRate`;
+    const idleFpsSetting = `idleFps`;
+    const targetLatencyMsSetting = `targetLatencyMs`;
+    const inferencePrioritySetting = `inferencePriority`;
 
     return {
         basicDetectionsOnlySetting,
+        associationStrategySetting,
+        zonesSetting,
+        linesSetting,
+        appearanceReidSetting,
+        reidMinSimilaritySetting,
+        reidMaxDistanceSetting,
+        recordSessionSetting,
+        detectionIdPolicySetting,
+        detectionIdRefreshSecondsSetting,
+        largeDetectionRatioSetting,
+        classAliasesSetting,
+        confusableClassesSetting,
+        tiledInferenceSetting,
+        tileGridSetting,
+        tileOverlapSetting,
+        adaptiveFrameRateSetting,
+        idleFpsSetting,
+        targetLatencyMsSetting,
+        inferencePrioritySetting,
+    };
+};
+
+export const getLineSettings = (line: string) => {
+    const linePointsSetting = `${line}-linePoints`;
+    const lineInvertSetting = `${line}-lineInvert`;
+
+    return {
+        linePointsSetting,
+        lineInvertSetting,
+    };
+};
+
+export const getZoneSettings = (zone: string) => {
+    const zonePathSetting = `${zone}-zonePath`;
+    const zoneTypeSetting = `${zone}-zoneType`;
+
+    return {
+        zonePathSetting,
+        zoneTypeSetting,
     };
 };
 
@@ -184,11 +596,39 @@ export const getClassnameSettings = (classname?: string) => {
     const minConfirmationFramesSetting = `${classname}-minConfirmationFrames`;
     const movementThresholdSetting = `${classname}-movementThreshold`;
     const iouThresholdSetting = `${classname}-iouThreshold`;
+    const trackKeepScoreSetting = `${classname}-trackKeepScore`;
+    const maxDwellSecondsSetting = `${classname}-maxDwellSeconds`;
+    const dwellZoneSetting = `${classname}-dwellZone`;
+    const stationarySecondsSetting = `${classname}-stationarySeconds`;
+    const minConfirmationSecondsSetting = `${classname}-minConfirmationSeconds`;
+    const maxUnseenSecondsSetting = `${classname}-maxUnseenSeconds`;
+    const maxLostSecondsSetting = `${classname}-maxLostSeconds`;
+    const detectionCooldownSecondsSetting = `${classname}-detectionCooldownSeconds`;
+    const minAreaSetting = `${classname}-minArea`;
+    const maxAreaSetting = `${classname}-maxArea`;
+    const minAspectRatioSetting = `${classname}-minAspectRatio`;
+    const maxAspectRatioSetting = `${classname}-maxAspectRatio`;
+    const edgeMarginSetting = `${classname}-edgeMargin`;
+    const minTrackScoreSetting = `${classname}-minTrackScore`;
 
     return {
         minScoreSetting,
         minConfirmationFramesSetting,
         movementThresholdSetting,
         iouThresholdSetting,
+        trackKeepScoreSetting,
+        maxDwellSecondsSetting,
+        dwellZoneSetting,
+        stationarySecondsSetting,
+        minConfirmationSecondsSetting,
+        maxUnseenSecondsSetting,
+        maxLostSecondsSetting,
+        detectionCooldownSecondsSetting,
+        minAreaSetting,
+        maxAreaSetting,
+        minAspectRatioSetting,
+        maxAspectRatioSetting,
+        edgeMarginSetting,
+        minTrackScoreSetting,
     };
 };
\ No newline at end of file